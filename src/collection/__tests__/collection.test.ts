@@ -5,14 +5,10 @@ describe('CollectionModule', () => {
   let collectionModule: CollectionModule;
   const inputCollection = 'BANANA-e955fd';
   beforeAll(() => {
-    XOXNOClient.init();
+    XOXNOClient.init({ rateLimit: { requestsPerSecond: 1 } });
     collectionModule = new CollectionModule();
   });
 
-  beforeEach(async () => {
-    return new Promise((resolve) => setTimeout(resolve, 1000));
-  });
-
   test('getCollectionProfile should return the correct result', async () => {
     const collectionModule = new CollectionModule();
     const result = await collectionModule.getCollectionProfile(inputCollection);
@@ -102,4 +98,20 @@ describe('CollectionModule', () => {
       },
     });
   });
+
+  it('should iterate over the NFTs of a collection', async () => {
+    const identifiers: string[] = [];
+    for await (const nft of collectionModule.iterateNFTs(
+      {
+        collections: [inputCollection],
+        auctionType: AuctionTypes.All,
+        top: 2,
+      },
+      { limit: 3 }
+    )) {
+      identifiers.push(nft.identifier);
+    }
+    expect(identifiers).toHaveLength(3);
+    expect(new Set(identifiers).size).toEqual(3);
+  });
 });
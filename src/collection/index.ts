@@ -24,11 +24,21 @@ import {
   GETDropsArgs,
   GetDropsResponse,
   CollectionListings,
+  GlobalOffers,
+  TradingActivity,
 } from '../types/collection';
 import { TradincActivityArgs, TradingActivityResponse } from '../types/trading';
 import { XOXNOClient } from '..';
-import { getActivity } from '../utils/getActivity';
+import { getActivity, iterateActivity } from '../utils/getActivity';
+import { IterateOptions, paginate } from '../utils/paginate';
 import { isValidCollectionTicker } from '../utils/regex';
+import { XOXNOValidationError } from '../utils/errors';
+import { schema } from '../utils/schema';
+import {
+  collectionProfileSchema,
+  globalOffersSchema,
+  nftDataSchema,
+} from '../utils/schemas';
 
 /**
  * CollectionModule provides a set of methods to interact with NFT collections.
@@ -40,8 +50,8 @@ import { isValidCollectionTicker } from '../utils/regex';
  */
 export class CollectionModule {
   private api: XOXNOClient;
-  constructor() {
-    this.api = XOXNOClient.init();
+  constructor(api: XOXNOClient = XOXNOClient.init()) {
+    this.api = api;
   }
 
   /**
@@ -62,7 +72,9 @@ export class CollectionModule {
     collection: string
   ): Promise<ICollectionProfile> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<ICollectionProfile>(
       `/collection/${collection}/profile`,
@@ -73,7 +85,11 @@ export class CollectionModule {
         },
       }
     );
-    return response;
+    return this.api.validate(
+      response,
+      collectionProfileSchema,
+      'getCollectionProfile'
+    );
   };
 
   /**
@@ -93,7 +109,11 @@ export class CollectionModule {
         },
       }
     );
-    return response;
+    return this.api.validate(
+      response,
+      schema.array(nftDataSchema),
+      'getDailyTrending'
+    );
   };
 
   /**
@@ -108,7 +128,9 @@ export class CollectionModule {
     token = 'EGLD'
   ): Promise<number> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<{
       price: number;
@@ -141,7 +163,9 @@ export class CollectionModule {
     collection: string
   ): Promise<ICollectionAttributes> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<ICollectionAttributes>(
       `/collection/${collection}/attributes`,
@@ -164,12 +188,12 @@ export class CollectionModule {
   public getNFTs = async (args: GetNFTsArgs): Promise<SearchNFTsResponse> => {
     args?.collections?.forEach((element) => {
       if (!isValidCollectionTicker(element)) {
-        throw new Error('Invalid collection ticker: ' + element);
+        throw new XOXNOValidationError('Invalid collection ticker: ' + element);
       }
     });
 
     if (args.top && args.top > 35) {
-      throw new Error('Top cannot be greater than 35');
+      throw new XOXNOValidationError('Top cannot be greater than 35');
     }
     const ranges = [];
     if (args.priceRange) {
@@ -235,6 +259,14 @@ export class CollectionModule {
         cache: 'no-store',
       }
     );
+    // Partial documents are expected when only a subset of the fields is selected
+    if (!args.onlySelectFields?.length) {
+      this.api.validate(
+        response.resources,
+        schema.array(nftDataSchema),
+        'getNFTs.resources'
+      );
+    }
     return {
       ...response,
       getNextPagePayload: {
@@ -244,6 +276,36 @@ export class CollectionModule {
     };
   };
 
+  /**
+   * Iterates over every NFT matching the provided arguments, fetching the pages on demand.
+   * @param {GetNFTsArgs} args - The search parameters of the first page.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<NftData>} The NFTs one by one.
+   *
+   * @example
+   * for await (const nft of collectionModule.iterateNFTs(args, { limit: 100 })) {
+   *   console.log(nft.identifier);
+   * }
+   */
+  public iterateNFTs(
+    args: GetNFTsArgs,
+    options?: IterateOptions
+  ): AsyncGenerator<NftData, void, undefined> {
+    return paginate(
+      async (page: GetNFTsArgs) => {
+        const response = await this.getNFTs(page);
+        return {
+          items: response.resources,
+          next: response.getNextPagePayload,
+          hasMore: response.hasMoreResults,
+        };
+      },
+      args,
+      35,
+      options
+    );
+  }
+
   /**
    * @public
    * @async
@@ -262,10 +324,10 @@ export class CollectionModule {
     args: SuggestNFTsArgs
   ): Promise<SuggestResults> => {
     if (args.top && args.top > 35) {
-      throw new Error('Top cannot be greater than 35');
+      throw new XOXNOValidationError('Top cannot be greater than 35');
     }
     if (!args.name) {
-      throw new Error('Name is required');
+      throw new XOXNOValidationError('Name is required');
     }
 
     const payloadBody: SuggestNFTsArgs = {
@@ -322,6 +384,19 @@ export class CollectionModule {
     return await getActivity(args, this.api);
   };
 
+  /**
+   * Iterates over the trading history matching the provided arguments, fetching the pages on demand.
+   * @param {TradincActivityArgs} args - The arguments for filtering the trading activity.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<TradingActivity>} The activity entries one by one.
+   */
+  public iterateActivity(
+    args: TradincActivityArgs,
+    options?: IterateOptions
+  ): AsyncGenerator<TradingActivity, void, undefined> {
+    return iterateActivity(args, this.api, options);
+  }
+
   /**
    * Fetch collections profiles based on the provided arguments.
    * @param {GetCollectionsArgs} args - The GetCollectionsArgs object containing the search parameters.
@@ -332,7 +407,7 @@ export class CollectionModule {
     args?: GetCollectionsArgs
   ): Promise<CollectionsNFTsResponse> => {
     if (args?.top && args.top > 25) {
-      throw new Error('Top cannot be greater than 25');
+      throw new XOXNOValidationError('Top cannot be greater than 25');
     }
 
     const payloadBody = {
@@ -362,6 +437,13 @@ export class CollectionModule {
         },
       }
     );
+    if (!args?.onlySelectFields?.length) {
+      this.api.validate(
+        response,
+        schema.array(collectionProfileSchema),
+        'getCollections'
+      );
+    }
     return {
       results: response,
       resultsCount: response.length,
@@ -374,6 +456,31 @@ export class CollectionModule {
     };
   };
 
+  /**
+   * Iterates over every collection profile matching the provided arguments, fetching the pages on demand.
+   * @param {GetCollectionsArgs} args - The search parameters of the first page.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<ICollectionProfile>} The collection profiles one by one.
+   */
+  public iterateCollections(
+    args: GetCollectionsArgs = {},
+    options?: IterateOptions
+  ): AsyncGenerator<ICollectionProfile, void, undefined> {
+    return paginate(
+      async (page: GetCollectionsArgs) => {
+        const response = await this.getCollections(page);
+        return {
+          items: response.results,
+          next: response.getNextPagePayload,
+          hasMore: response.hasMoreResults,
+        };
+      },
+      args,
+      25,
+      options
+    );
+  }
+
   /**
    * Fetch global offers based on the provided arguments.
    * @param {GetGlobalOffersArgs} args - The GetCollectionsArgs object containing the search parameters.
@@ -384,7 +491,7 @@ export class CollectionModule {
     args?: GetGlobalOffersArgs
   ): Promise<GlobalOffersResult> => {
     if (args?.top && args.top > 25) {
-      throw new Error('Top cannot be greater than 25');
+      throw new XOXNOValidationError('Top cannot be greater than 25');
     }
 
     const payloadBody = {
@@ -418,6 +525,13 @@ export class CollectionModule {
         },
       }
     );
+    if (!args?.onlySelectFields?.length) {
+      this.api.validate(
+        response.resources,
+        schema.array(globalOffersSchema),
+        'getGlobalOffers.resources'
+      );
+    }
     return {
       ...response,
       getNextPagePayload: {
@@ -427,6 +541,31 @@ export class CollectionModule {
     };
   };
 
+  /**
+   * Iterates over every global offer matching the provided arguments, fetching the pages on demand.
+   * @param {GetGlobalOffersArgs} args - The search parameters of the first page.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<GlobalOffers>} The global offers one by one.
+   */
+  public iterateGlobalOffers(
+    args: GetGlobalOffersArgs = {},
+    options?: IterateOptions
+  ): AsyncGenerator<GlobalOffers, void, undefined> {
+    return paginate(
+      async (page: GetGlobalOffersArgs) => {
+        const response = await this.getGlobalOffers(page);
+        return {
+          items: response.resources,
+          next: response.getNextPagePayload ?? page,
+          hasMore: response.hasMoreResults,
+        };
+      },
+      args,
+      25,
+      options
+    );
+  }
+
   /**
    * @public
    * @async
@@ -454,7 +593,9 @@ export class CollectionModule {
     bin: string
   ): Promise<CollectionVolume[]> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<CollectionVolume[]>(
       `/collection/${collection}/analytics/volume?startTime=${after}&endTime=${before}&bin=${bin}`,
@@ -520,7 +661,9 @@ export class CollectionModule {
    */
   public getCollectionOwners = async (collection: string): Promise<IOwners> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<IOwners>(
       `/collection/${collection}/holders`,
@@ -553,7 +696,9 @@ export class CollectionModule {
     collection: string
   ): Promise<ISingleHolder[]> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<ISingleHolder[]>(
       `/collection/${collection}/holders?exportHolders=true`,
@@ -579,7 +724,7 @@ export class CollectionModule {
     args: GetCollectionStatsArgs
   ): Promise<CollectionStatsResults> => {
     if (args?.top && args.top > 25) {
-      throw new Error('Top cannot be greater than 25');
+      throw new XOXNOValidationError('Top cannot be greater than 25');
     }
 
     const response = await this.api.fetchWithTimeout<CollectionStatsResults>(
@@ -603,6 +748,31 @@ export class CollectionModule {
     };
   };
 
+  /**
+   * Iterates over the statistics of every collection matching the provided filters, fetching the pages on demand.
+   * @param {GetCollectionStatsArgs} args - The filter payload of the first page.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<CollectionStatsDoc>} The collection statistics one by one.
+   */
+  public iterateCollectionsStatistics(
+    args: GetCollectionStatsArgs,
+    options?: IterateOptions
+  ): AsyncGenerator<CollectionStatsDoc, void, undefined> {
+    return paginate(
+      async (page: GetCollectionStatsArgs) => {
+        const response = await this.getCollectionsStatistics(page);
+        return {
+          items: response.resources,
+          next: response.getNextPagePayload ?? page,
+          hasMore: response.hasMoreResults,
+        };
+      },
+      args,
+      25,
+      options
+    );
+  }
+
   /**
    * @public
    * @async
@@ -615,7 +785,7 @@ export class CollectionModule {
     ticker: string
   ): Promise<CollectionStatsDoc> => {
     if (!isValidCollectionTicker(ticker)) {
-      throw new Error('Invalid collection ticker: ' + ticker);
+      throw new XOXNOValidationError('Invalid collection ticker: ' + ticker);
     }
 
     return await this.api.fetchWithTimeout<CollectionStatsDoc>(
@@ -653,7 +823,7 @@ export class CollectionModule {
     extra?: RequestInit;
   }): Promise<GetCollectionMintInfo> => {
     if (!isValidCollectionTicker(ticker)) {
-      throw new Error('Invalid collection ticker: ' + ticker);
+      throw new XOXNOValidationError('Invalid collection ticker: ' + ticker);
     }
     const response = await this.api.fetchWithTimeout<GetCollectionMintInfo>(
       `/collection/${ticker}/drop-info`,
@@ -684,7 +854,7 @@ export class CollectionModule {
     extra?: RequestInit;
   }): Promise<CollectionRanksExport[]> => {
     if (!isValidCollectionTicker(ticker)) {
-      throw new Error('Invalid collection ticker: ' + ticker);
+      throw new XOXNOValidationError('Invalid collection ticker: ' + ticker);
     }
     const response = await this.api.fetchWithTimeout<CollectionRanksExport[]>(
       `/collection/${ticker}/ranks`,
@@ -745,7 +915,9 @@ export class CollectionModule {
     bin: string
   ): Promise<AnalyticsGraphs> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<AnalyticsGraphs>(
       `/collection/${collection}/analytics/volume`,
@@ -780,7 +952,11 @@ export class CollectionModule {
         },
       }
     );
-    return response;
+    return this.api.validate(
+      response,
+      schema.array(collectionProfileSchema),
+      'getPinnedCollections'
+    );
   };
 
   /**
@@ -792,12 +968,12 @@ export class CollectionModule {
   public getDrops = async (args: GETDropsArgs): Promise<GetDropsResponse> => {
     args?.collections?.forEach((element) => {
       if (!isValidCollectionTicker(element)) {
-        throw new Error('Invalid collection ticker: ' + element);
+        throw new XOXNOValidationError('Invalid collection ticker: ' + element);
       }
     });
 
     if (args.top && args.top > 35) {
-      throw new Error('Top cannot be greater than 35');
+      throw new XOXNOValidationError('Top cannot be greater than 35');
     }
     const ranges = [];
 
@@ -842,6 +1018,31 @@ export class CollectionModule {
     };
   };
 
+  /**
+   * Iterates over every drop matching the provided arguments, fetching the pages on demand.
+   * @param {GETDropsArgs} args - The search parameters of the first page.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<GetCollectionMintInfo>} The drops one by one.
+   */
+  public iterateDrops(
+    args: GETDropsArgs,
+    options?: IterateOptions
+  ): AsyncGenerator<GetCollectionMintInfo, void, undefined> {
+    return paginate(
+      async (page: GETDropsArgs) => {
+        const response = await this.getDrops(page);
+        return {
+          items: response.resources,
+          next: response.getNextPagePayload,
+          hasMore: response.hasMoreResults,
+        };
+      },
+      args,
+      35,
+      options
+    );
+  }
+
   /** Gets collection staking info
    * @param {String} collection - User's address
    * @returns {StakingSummaryPools[]} Collection's staking info
@@ -855,7 +1056,9 @@ export class CollectionModule {
     extra?: RequestInit;
   }): Promise<StakingSummaryPools[]> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
 
     const response = await this.api.fetchWithTimeout<StakingSummaryPools[]>(
@@ -880,7 +1083,7 @@ export class CollectionModule {
   ): Promise<Record<string, number>> => {
     collections?.forEach((element) => {
       if (!isValidCollectionTicker(element)) {
-        throw new Error('Invalid collection ticker: ' + element);
+        throw new XOXNOValidationError('Invalid collection ticker: ' + element);
       }
     });
     const response = await this.api.fetchWithTimeout<Record<string, number>>(
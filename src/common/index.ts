@@ -12,18 +12,26 @@ import {
   TokenUSDPrices,
 } from '../types/common';
 import { XOXNOClient } from '../utils/api';
+import { XOXNOValidationError } from '../utils/errors';
 
 export class CommonModule {
   private api: XOXNOClient;
-  constructor() {
-    this.api = XOXNOClient.init();
+  constructor(api: XOXNOClient = XOXNOClient.init()) {
+    this.api = api;
   }
   /** Gets all tokens usd price
    * @returns {TokenUSDPrices} User's creator info
    *  */
   public getTokensUsdPrice = async (): Promise<TokenUSDPrices> => {
-    const response =
-      await this.api.fetchWithTimeout<TokenUSDPrices>(`/tokens/usd-price`);
+    const response = await this.api.fetchWithTimeout<TokenUSDPrices>(
+      `/tokens/usd-price`,
+      {
+        next: {
+          tags: ['getTokensUsdPrice'],
+          revalidate: 60,
+        },
+      }
+    );
     return response;
   };
 
@@ -82,6 +90,10 @@ export class CommonModule {
       `/tokens`,
       {
         params,
+        next: {
+          tags: ['getFungibleTokens'],
+          revalidate: 3600,
+        },
       }
     );
     return response;
@@ -158,10 +170,10 @@ export class CommonModule {
     args: SuggestNFTsArgs
   ): Promise<SuggestResults> => {
     if (args.top && args.top > 35) {
-      throw new Error('Top cannot be greater than 35');
+      throw new XOXNOValidationError('Top cannot be greater than 35');
     }
     if (!args.name) {
-      throw new Error('Name is required');
+      throw new XOXNOValidationError('Name is required');
     }
 
     const payloadBody: SuggestNFTsArgs = {
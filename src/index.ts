@@ -4,4 +4,13 @@ export * from './nft';
 export * from './users';
 export * from './staking';
 export * from './utils/api';
+export * from './utils/errors';
+export * from './utils/retry';
+export * from './utils/rateLimiter';
+export * from './utils/cache';
+export * from './utils/paginate';
+export * from './utils/schema';
+export * from './utils/schemas';
 export * from './common';
+export * from './utils/tokenAmount';
+export * from './utils/tokenRegistry';
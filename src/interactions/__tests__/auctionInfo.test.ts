@@ -0,0 +1,48 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { ContractQueryRunner } from '../../utils/scCalls';
+import { ContractQueryError } from '../../utils/errors';
+import { XOXNO_SC } from '../../utils/const';
+
+describe('SCInteraction.getAuctionInfo', () => {
+  let sc: SCInteraction;
+  let runQuery: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest.spyOn(SmartContractAbis, 'getMarket').mockResolvedValue(
+      AbiRegistry.create({
+        endpoints: [
+          {
+            name: 'getFullAuctionData',
+            mutability: 'readonly',
+            inputs: [{ name: 'auction_id', type: 'u64' }],
+            outputs: [],
+          },
+        ],
+      })
+    );
+    runQuery = jest.spyOn(ContractQueryRunner.prototype, 'runQuery');
+    sc = await SCInteraction.init(new XOXNOClient());
+  });
+
+  it('should return null for an auction the contract does not know', async () => {
+    runQuery.mockRejectedValueOnce(
+      new ContractQueryError(
+        'getFullAuctionData',
+        XOXNO_SC,
+        'Auction does not exist',
+        'user error'
+      )
+    );
+    await expect(sc.getAuctionInfo(7)).resolves.toBeNull();
+  });
+
+  it('should throw when the contract cannot be queried', async () => {
+    runQuery.mockRejectedValueOnce(
+      new ContractQueryError('getFullAuctionData', XOXNO_SC, 'Gateway timeout')
+    );
+    await expect(sc.getAuctionInfo(7)).rejects.toThrow(ContractQueryError);
+  });
+});
@@ -0,0 +1,138 @@
+import { Address } from '@multiversx/sdk-core/out/address';
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { TransactionEvent } from '@multiversx/sdk-network-providers/out/transactionEvents';
+import { TransactionOnNetwork } from '@multiversx/sdk-network-providers/out/transactions';
+import { TransactionLogs } from '@multiversx/sdk-network-providers/out/transactionLogs';
+import { MarketEventsParser } from '../events';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { FM_SC, XOXNO_SC } from '../../utils/const';
+import { XOXNOError } from '../../utils/errors';
+import { NftActivityType } from '../../types/trading';
+
+const buyer = 'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+const seller = 'erd1qyu5wthldzr8wx5c9ucg8kjagg0jfs53s8nr3zpz3hypefsdd8ssycr6th';
+
+const topics = (...values: Buffer[]) =>
+  values.map((value) => value.toString('base64'));
+
+const tradeFields = [
+  { name: 'auction_token_id', type: 'TokenIdentifier', indexed: true },
+  { name: 'auctioned_token_nonce', type: 'u64', indexed: true },
+  { name: 'auction_id', type: 'u64', indexed: true },
+  { name: 'nr_bought_tokens', type: 'BigUint', indexed: true },
+  { name: 'buyer', type: 'Address', indexed: true },
+  { name: 'bid_sft_amount', type: 'BigUint', indexed: true },
+  { name: 'seller', type: 'Address', indexed: true },
+];
+
+const tradeTopics = (event = 'buy_sft_event') =>
+  topics(
+    Buffer.from(event),
+    Buffer.from('EAPES-8f3c1f'),
+    Buffer.from('01', 'hex'),
+    Buffer.from('07', 'hex'),
+    Buffer.from('01', 'hex'),
+    new Address(buyer).pubkey(),
+    Buffer.from('0de0b6b3a7640000', 'hex'),
+    new Address(seller).pubkey()
+  );
+
+describe('MarketEventsParser', () => {
+  let parser: MarketEventsParser;
+
+  beforeAll(async () => {
+    jest.spyOn(SmartContractAbis, 'getMarket').mockResolvedValue(
+      AbiRegistry.create({
+        endpoints: [],
+        events: [
+          { identifier: 'buy_sft_event', inputs: tradeFields },
+          { identifier: 'unknown_event', inputs: [] },
+        ],
+      })
+    );
+    jest
+      .spyOn(SmartContractAbis, 'getExternalMarket')
+      .mockImplementation(async (market) => {
+        if (market !== 'FM') {
+          throw new XOXNOError(`The contract of ${market} has no verified ABI`);
+        }
+        return AbiRegistry.create({
+          endpoints: [],
+          events: [
+            {
+              identifier: 'end_auction_event',
+              inputs: tradeFields.slice(0, 3),
+            },
+          ],
+        });
+      });
+    parser = await MarketEventsParser.init(new XOXNOClient());
+  });
+
+  it('should decode the trades of a transaction', () => {
+    const transaction = new TransactionOnNetwork({
+      logs: new TransactionLogs({
+        address: new Address(XOXNO_SC),
+        events: [
+          TransactionEvent.fromHttpResponse({
+            address: XOXNO_SC,
+            identifier: 'buy',
+            topics: tradeTopics(),
+            data: '',
+          }),
+          TransactionEvent.fromHttpResponse({
+            address: XOXNO_SC,
+            identifier: 'buy',
+            topics: topics(Buffer.from('unknown_event')),
+            data: '',
+          }),
+        ],
+      }),
+    });
+    expect(parser.parseTransaction(transaction)).toEqual([
+      {
+        type: NftActivityType.TRADE,
+        market: 'XO',
+        name: 'buy_sft_event',
+        auctionId: 7,
+        collection: 'EAPES-8f3c1f',
+        nonce: 1,
+        quantity: 1,
+        price: '1000000000000000000',
+        buyer,
+        seller,
+      },
+    ]);
+  });
+
+  it('should skip the events of other contracts', () => {
+    const event = TransactionEvent.fromHttpResponse({
+      address: buyer,
+      identifier: 'buy',
+      topics: topics(Buffer.from('buy_sft_event')),
+      data: '',
+    });
+    expect(parser.parseEvents([event])).toEqual([]);
+  });
+
+  it('should skip the external marketplace events missing a field and decode the others', () => {
+    const events = [
+      TransactionEvent.fromHttpResponse({
+        address: FM_SC,
+        identifier: 'endAuction',
+        topics: tradeTopics('end_auction_event'),
+        data: '',
+      }),
+      TransactionEvent.fromHttpResponse({
+        address: XOXNO_SC,
+        identifier: 'buy',
+        topics: tradeTopics(),
+        data: '',
+      }),
+    ];
+    expect(parser.parseEvents(events)).toEqual([
+      expect.objectContaining({ market: 'XO', name: 'buy_sft_event' }),
+    ]);
+  });
+});
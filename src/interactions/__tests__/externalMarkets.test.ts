@@ -0,0 +1,165 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { Chain, XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { DR_SC, FM_SC, KG_SC } from '../../utils/const';
+import { Marketplace } from '../../types/collection';
+import type { SaleInfo } from '../../types/nft';
+import { XOXNOValidationError } from '../../utils/errors';
+
+const sender = {
+  address: 'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57',
+  nonce: 5,
+};
+
+// Stands for the ABI served by the explorer, only the calls routed by the builders are declared
+const listing = [
+  { name: 'auction_id', type: 'u64' },
+  { name: 'nft_type', type: 'TokenIdentifier' },
+  { name: 'nft_nonce', type: 'u64' },
+];
+const verifiedAbi = {
+  endpoints: [
+    {
+      name: 'buy',
+      mutability: 'mutable',
+      payableInTokens: ['*'],
+      inputs: [...listing, { name: 'quantity', type: 'BigUint' }],
+      outputs: [],
+    },
+    {
+      name: 'bid',
+      mutability: 'mutable',
+      payableInTokens: ['*'],
+      inputs: listing,
+      outputs: [],
+    },
+    {
+      name: 'endAuction',
+      mutability: 'mutable',
+      inputs: [{ name: 'auction_id', type: 'u64' }],
+      outputs: [],
+    },
+  ],
+};
+
+const sale = (marketplace: string, saleInfo: Partial<SaleInfo> = {}) => ({
+  collection: 'EAPES-8f3c1f',
+  nonce: 1,
+  saleInfo: {
+    auctionId: 7,
+    minBid: '1000000000000000000',
+    paymentToken: 'EGLD',
+    paymentTokenNonce: 0,
+    quantity: 1,
+    marketplace,
+    ...saleInfo,
+  } as SaleInfo,
+});
+
+describe('SCInteraction on the external marketplaces', () => {
+  let sc: SCInteraction;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest
+      .spyOn(SmartContractAbis, 'getMarket')
+      .mockResolvedValue(AbiRegistry.create({ endpoints: [] }));
+    // DeadRare has no verified source code
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (input) =>
+      input.toString().includes(DR_SC)
+        ? new Response(JSON.stringify({ message: 'not found' }), {
+            status: 404,
+          })
+        : new Response(JSON.stringify({ source: { abi: verifiedAbi } }))
+    );
+    sc = await SCInteraction.init(new XOXNOClient());
+  });
+
+  afterAll(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should load the ABIs verified on the explorer', () => {
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(
+      expect.arrayContaining([
+        `https://api.multiversx.com/accounts/${FM_SC}/verification`,
+        `https://api.multiversx.com/accounts/${KG_SC}/verification`,
+      ])
+    );
+  });
+
+  it('should not request again a contract without a verified ABI', async () => {
+    fetchMock.mockClear();
+    await SCInteraction.init(new XOXNOClient());
+    expect(fetchMock.mock.calls.map(([url]) => url)).not.toContainEqual(
+      expect.stringContaining(DR_SC)
+    );
+  });
+
+  it('should load the ABIs verified on the explorer of the client chain', async () => {
+    fetchMock.mockClear();
+    await SCInteraction.init(new XOXNOClient({ chain: Chain.DEVNET }));
+    expect(fetchMock.mock.calls.map(([url]) => url)).toContainEqual(
+      `https://devnet-api.multiversx.com/accounts/${FM_SC}/verification`
+    );
+  });
+
+  it('should buy a Frame It listing at its listed price', () => {
+    const transaction = sc
+      .buyListing(sale(Marketplace.FM), sender)
+      .buildTransaction();
+    expect(transaction.receiver).toEqual(FM_SC);
+    expect(transaction.value).toEqual(BigInt('1000000000000000000'));
+  });
+
+  it('should pay the whole quantity of an SFT listing in ESDT', () => {
+    const transaction = sc
+      .buyListing(
+        sale('KG', { paymentToken: 'WEGLD-bd4d79', quantity: 5 }),
+        sender,
+        2
+      )
+      .buildTransaction();
+    expect(transaction.receiver).toEqual(KG_SC);
+    expect(Buffer.from(transaction.data).toString()).toMatch(
+      /^ESDTTransfer@5745474c442d626434643739@1bc16d674ec80000@/
+    );
+  });
+
+  it('should reject a quantity above the listed one', () => {
+    expect(() => sc.buyListing(sale('KG'), sender, 2)).toThrow(
+      XOXNOValidationError
+    );
+  });
+
+  it('should not route to a marketplace without a verified ABI', () => {
+    expect(() => sc.buyListing(sale('DR'), sender)).toThrow(
+      'The ABI of DR is not available'
+    );
+  });
+
+  it('should route the auction builders to the marketplace contract', () => {
+    expect(
+      sc.endAuction(7, sender, Marketplace.KG).buildTransaction().receiver
+    ).toEqual(KG_SC);
+    expect(
+      sc
+        .bidOnAuctionId(
+          7,
+          'EAPES-8f3c1f',
+          1,
+          { collection: 'EGLD', nonce: 0, amount: 1 },
+          sender,
+          'FM'
+        )
+        .buildTransaction().receiver
+    ).toEqual(FM_SC);
+    expect(() => sc.withdrawAuctions([1, 2], sender, 'FM')).toThrow(
+      XOXNOValidationError
+    );
+    expect(() => sc.endAuction(7, sender, 'unknown')).toThrow(
+      'Market not supported: unknown'
+    );
+  });
+});
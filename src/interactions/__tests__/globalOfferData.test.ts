@@ -0,0 +1,99 @@
+import { Address } from '@multiversx/sdk-core/out/address';
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
+import type { TypedOutcomeBundle } from '@multiversx/sdk-core/out/smartcontracts/interface';
+import BigNumber from 'bignumber.js';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { ContractQueryRunner } from '../../utils/scCalls';
+
+const owner = 'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+
+const offer = {
+  offer_id: new BigNumber(3),
+  collection: 'EAPES-8f3c1f',
+  quantity: new BigNumber(1),
+  payment_token: 'USDC-c76f1f',
+  payment_nonce: new BigNumber(0),
+  price: new BigNumber(10_000_000),
+  timestamp: new BigNumber(1_700_000_000),
+  owner: new Address(owner),
+  attributes: null,
+  new_version: false,
+};
+
+describe('SCInteraction global offer amounts', () => {
+  let sc: SCInteraction;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest.spyOn(SmartContractAbis, 'getMarket').mockResolvedValue(
+      AbiRegistry.create({
+        endpoints: [
+          {
+            name: 'getGlobalOffer',
+            mutability: 'readonly',
+            inputs: [{ name: 'offer_id', type: 'u64' }],
+            outputs: [],
+          },
+          {
+            name: 'userDeposit',
+            mutability: 'readonly',
+            inputs: [
+              { name: 'address', type: 'Address' },
+              { name: 'token', type: 'TokenIdentifier' },
+              { name: 'nonce', type: 'u64' },
+            ],
+            outputs: [],
+          },
+        ],
+      })
+    );
+    jest.spyOn(ContractQueryRunner.prototype, 'runQuery').mockImplementation(
+      async (_, interaction: Interaction) =>
+        ({
+          firstValue: {
+            valueOf: () =>
+              interaction.getFunction().name === 'getGlobalOffer'
+                ? { ...offer }
+                : { amount: new BigNumber(25_000_000) },
+          },
+        }) as unknown as TypedOutcomeBundle
+    );
+    sc = await SCInteraction.init(new XOXNOClient());
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            'USDC-c76f1f': {
+              identifier: 'USDC-c76f1f',
+              name: 'WrappedUSDC',
+              ticker: 'USDC',
+              decimals: 6,
+            },
+          })
+        )
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should scale the pool balance with the decimals of the token', async () => {
+    const balance = await sc.getUserPoolBalance(owner, 'USDC-c76f1f', 0);
+    expect(balance.decimals).toEqual(6);
+    expect(balance.toNumber()).toEqual(25);
+  });
+
+  it('should scale the short price with the decimals of the payment token', async () => {
+    const data = await sc.getGlobalOfferData(3);
+    expect(data.short_price).toEqual(10);
+    expect(data.price).toEqual('10000000');
+    expect(data.isActive).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import type { GlobalOffer, GlobalOffers } from '../../types/collection';
+import type { NftData } from '../../types/nft';
+
+const owner = (address: string) => ({ address, username: '', profile: '' });
+
+const offer = (
+  offerId: number,
+  price: string,
+  address: string,
+  attributes: GlobalOffers['attributes'] = [],
+  paymentToken = 'EGLD'
+): GlobalOffers =>
+  ({
+    offerId,
+    collection: 'EAPES-8f3c1f',
+    quantity: 1,
+    paymentToken,
+    price,
+    owner: owner(address),
+    marketplace: 'XO',
+    attributes,
+    isActive: true,
+  }) as GlobalOffers;
+
+const nft = {
+  identifier: 'EAPES-8f3c1f-01',
+  collection: 'EAPES-8f3c1f',
+  nonce: 1,
+  royalties: 5,
+  metadata: {
+    attributes: [
+      { trait_type: 'Background', value: 'Blue' },
+      { trait_type: 'Level', value: '7' },
+    ],
+  },
+} as NftData;
+
+const offers: Record<number, GlobalOffers> = {
+  1: offer(1, '2000000000000000000', 'erd1first'),
+  2: offer(2, '1500000000000000000', 'erd1second'),
+  3: offer(3, '2500000000000000000', 'erd1second', [
+    { trait_type: 'Background', value: 'Blue' },
+  ]),
+  4: offer(4, '2800000000000000000', 'erd1second', [
+    { trait_type: 'Background', value: 'Red' },
+  ]),
+};
+
+describe('SCInteraction.findBestGlobalOffers', () => {
+  let sc: SCInteraction;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest
+      .spyOn(SmartContractAbis, 'getMarket')
+      .mockResolvedValue(AbiRegistry.create({ endpoints: [] }));
+    sc = await SCInteraction.init(new XOXNOClient());
+    jest.spyOn(sc, 'getMarketplaceFees').mockResolvedValue(200);
+    // The first offer is no longer covered by the deposit of its owner
+    jest.spyOn(sc, 'getGlobalOfferData').mockImplementation(
+      async (offerId) =>
+        ({
+          offer_id: offerId,
+          payment_token: offers[offerId].paymentToken,
+          payment_nonce: 0,
+          price: offers[offerId].price,
+          isActive: offerId !== 1,
+        }) as GlobalOffer
+    );
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (input) =>
+      new URL(input.toString()).pathname.endsWith('/usd-price')
+        ? new Response(JSON.stringify({ EGLD: 40 }))
+        : new URL(input.toString()).pathname.endsWith('/tokens')
+          ? new Response(
+              JSON.stringify({
+                'WEGLD-bd4d79': {
+                  identifier: 'WEGLD-bd4d79',
+                  name: 'WrappedEGLD',
+                  ticker: 'WEGLD',
+                  decimals: 18,
+                },
+              })
+            )
+          : new Response(
+              JSON.stringify({
+                resources: Object.values(offers),
+                hasMoreResults: false,
+                lastSkip: 0,
+              })
+            )
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should rank the matching offers covered by their deposit', async () => {
+    const { matches, signatureRequired } = await sc.findBestGlobalOffers(nft);
+    expect(matches.map(({ offer }) => offer.offerId)).toEqual([2]);
+    expect(matches[0].args).toEqual({
+      offer_id: 2,
+      nft: { collection: 'EAPES-8f3c1f', nonce: 1, amount: 1 },
+    });
+    expect(matches[0].quote.sellerNet.toDenominated()).toEqual('1.395');
+    expect(signatureRequired.map(({ offer }) => offer.offerId)).toEqual([3]);
+    expect(signatureRequired[0].quote.sellerNet.toDenominated()).toEqual(
+      '2.325'
+    );
+    expect(sc.getGlobalOfferData).not.toHaveBeenCalledWith(4);
+
+    const filter = JSON.parse(
+      new URL(fetchMock.mock.calls[0][0]).searchParams.get('filter') as string
+    );
+    expect(filter.filters.collection).toEqual(['EAPES-8f3c1f']);
+  });
+
+  it('should accept the offers with the listing of a listed NFT', async () => {
+    const {
+      matches: [best],
+    } = await sc.findBestGlobalOffers(
+      {
+        ...nft,
+        saleInfo: { auctionId: 9, marketplace: 'XO' },
+      } as NftData,
+      1
+    );
+    expect(best.args).toEqual({ offer_id: 2, auction_id_opt: 9 });
+  });
+
+  it('should match numeric traits and rank the offers without a USD price', async () => {
+    offers[5] = offer(5, '1800000000000000000', 'erd1second', [
+      { trait_type: 'Level', value: 7 },
+    ]);
+    // An offer in a token without a USD price, worth 2 EGLD according to the API
+    offers[6] = {
+      ...offer(6, '2000000000000000000', 'erd1second', [], 'WEGLD-bd4d79'),
+      usdValue: '80',
+    };
+    try {
+      const { matches, signatureRequired } = await sc.findBestGlobalOffers(nft);
+      expect(matches.map(({ offer }) => offer.offerId)).toEqual([6, 2]);
+      expect(signatureRequired.map(({ offer }) => offer.offerId)).toEqual([
+        3, 5,
+      ]);
+    } finally {
+      delete offers[5];
+      delete offers[6];
+    }
+  });
+});
@@ -0,0 +1,42 @@
+import { ManagerInteraction } from '../manager';
+import { XOXNOClient } from '../../utils/api';
+
+describe('ManagerInteraction', () => {
+  let sc: ManagerInteraction;
+  const address =
+    'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+  beforeAll(async () => {
+    XOXNOClient.init({ rateLimit: { requestsPerSecond: 1 } });
+    sc = await ManagerInteraction.init();
+  });
+
+  it('should return the on-chain creator state', async () => {
+    const info = await sc.getCreatorInfo(address);
+    expect(info).toBeDefined();
+    expect(Array.isArray(info.minters)).toEqual(true);
+  });
+
+  it('should attach the issue cost when issuing a collection', async () => {
+    const interaction = sc.issueCollection(
+      { tag: 'xoxno', name: 'MyCollection', ticker: 'MYCOL', royalties: 5 },
+      { address }
+    );
+    expect(interaction.buildTransaction().toSendable().value).toEqual(
+      '50000000000000000'
+    );
+  });
+
+  it('should reject shares that do not add up to 100', () => {
+    expect(() =>
+      sc.setShareholders(
+        'xoxno',
+        'MYCOL-123456',
+        [
+          { address, share: 60 },
+          { address, share: 30 },
+        ],
+        { address }
+      )
+    ).toThrow('Shares must add up to 100');
+  });
+});
@@ -3,14 +3,10 @@ import { SCInteraction, XOXNOClient } from '../../index';
 describe('SCInteraction', () => {
   let sc: SCInteraction;
   beforeAll(async () => {
-    XOXNOClient.init();
+    XOXNOClient.init({ rateLimit: { requestsPerSecond: 1 } });
     sc = await SCInteraction.init();
   });
 
-  beforeEach(async () => {
-    return new Promise((resolve) => setTimeout(resolve, 1000));
-  });
-
   it('should return the XOXNO marketplace cut fees from SC', async () => {
     const fees = await sc.getMarketplaceFees();
     expect(fees).toBeDefined();
@@ -54,7 +50,7 @@ describe('SCInteraction', () => {
       0
     );
     expect(balance).toBeDefined();
-    expect(balance).toBeGreaterThan(0);
+    expect(balance.toNumber()).toBeGreaterThan(0);
   });
 
   it('should return the XOXNO unique listed collections', async () => {
@@ -0,0 +1,49 @@
+import { P2PInteraction } from '../p2p';
+import { XOXNOClient } from '../../utils/api';
+
+describe('P2PInteraction', () => {
+  let sc: P2PInteraction;
+  const address =
+    'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+  beforeAll(async () => {
+    XOXNOClient.init({ rateLimit: { requestsPerSecond: 1 } });
+    sc = await P2PInteraction.init();
+  });
+
+  it('should return the offers created by a user', async () => {
+    const ids = await sc.getUserOfferIDs(address);
+    expect(ids).toBeDefined();
+    expect(Array.isArray(ids)).toEqual(true);
+  });
+
+  it('should escrow every offered token with a multi transfer', async () => {
+    const interaction = sc.createOffer(
+      {
+        offered: [
+          { collection: 'EAPES-8f3c1f', nonce: 1, amount: 1 },
+          { collection: 'EGLD', nonce: 0, amount: 1 },
+        ],
+        wanted: [{ collection: 'BANANA-a1b2c3', nonce: 2, amount: 1 }],
+      },
+      { address, nonce: 5 }
+    );
+    const tx = interaction.buildTransaction().toSendable();
+    expect(tx.nonce).toEqual(5);
+    expect(tx.receiver).toEqual(address);
+    expect(Buffer.from(tx.data ?? '', 'base64').toString()).toContain(
+      'MultiESDTNFTTransfer'
+    );
+  });
+
+  it('should reject an offer without wanted tokens', () => {
+    expect(() =>
+      sc.createOffer(
+        {
+          offered: [{ collection: 'EAPES-8f3c1f', nonce: 1, amount: 1 }],
+          wanted: [],
+        },
+        { address }
+      )
+    ).toThrow('Both the offered and the wanted tokens are required');
+  });
+});
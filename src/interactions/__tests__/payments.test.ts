@@ -0,0 +1,69 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { XOXNOValidationError } from '../../utils/errors';
+
+const address =
+  'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+
+describe('SCInteraction payments', () => {
+  let sc: SCInteraction;
+
+  beforeAll(async () => {
+    jest.spyOn(SmartContractAbis, 'getMarket').mockResolvedValue(
+      AbiRegistry.create({
+        endpoints: [
+          {
+            name: 'bid',
+            mutability: 'mutable',
+            payableInTokens: ['*'],
+            inputs: [{ name: 'ids', type: 'variadic<u64>', multi_arg: true }],
+            outputs: [],
+          },
+        ],
+      })
+    );
+    // The token list is loaded by init, before the builders run
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation(
+      async (input) =>
+        new Response(
+          JSON.stringify(
+            new URL(input.toString()).pathname.endsWith('/tokens')
+              ? {
+                  'USDC-c76f1f': {
+                    identifier: 'USDC-c76f1f',
+                    name: 'WrappedUSDC',
+                    ticker: 'USDC',
+                    decimals: 6,
+                  },
+                }
+              : {}
+          )
+        )
+    );
+    sc = await SCInteraction.init(new XOXNOClient());
+    fetchMock.mockRestore();
+  });
+
+  it('should shift the payments by the decimals of their token', () => {
+    const interaction = sc.bulkBuy(
+      [1, 2],
+      { collection: 'USDC-c76f1f', nonce: 0, amount: 10 },
+      { address }
+    );
+    const [transfer] = interaction.getTokenTransfers();
+    expect(transfer.tokenIdentifier).toEqual('USDC-c76f1f');
+    expect(transfer.amountAsBigInteger.toString()).toEqual('10000000');
+  });
+
+  it('should reject the payments of tokens with unknown decimals', () => {
+    expect(() =>
+      sc.bulkBuy(
+        [1],
+        { collection: 'WEGLD-bd4d79', nonce: 0, amount: 10 },
+        { address }
+      )
+    ).toThrow(XOXNOValidationError);
+  });
+});
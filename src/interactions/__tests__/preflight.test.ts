@@ -0,0 +1,318 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { TokenAmount } from '../../utils/tokenAmount';
+import type { SaleInfo } from '../../types/nft';
+import {
+  Auction,
+  AuctionType,
+  PreflightIssueCode,
+} from '../../types/interactions';
+
+const seller = 'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+const buyer = 'erd1qyu5wthldzr8wx5c9ucg8kjagg0jfs53s8nr3zpz3hypefsdd8ssycr6th';
+const hour = 3600;
+const now = () => Math.floor(Date.now() / 1000);
+
+const auction: Auction = {
+  auctioned_token_type: 'EAPES-8f3c1f',
+  auctioned_token_nonce: 1,
+  nr_auctioned_tokens: 1,
+  auction_type: AuctionType.NftBid,
+  payment_token_type: 'EGLD',
+  payment_token_nonce: 0,
+  min_bid: '1000000000000000000',
+  max_bid: '5000000000000000000',
+  start_time: 0,
+  deadline: now() + hour,
+  original_owner: seller,
+  current_bid: '0',
+  current_winner: '',
+  marketplace_cut_percentage: '200',
+  creator_royalties_percentage: '500',
+};
+
+const codes = (issues: { code: PreflightIssueCode }[]) =>
+  issues.map(({ code }) => code);
+
+describe('PreflightValidator', () => {
+  let sc: SCInteraction;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest.spyOn(SmartContractAbis, 'getMarket').mockResolvedValue(
+      AbiRegistry.create({
+        endpoints: [
+          {
+            name: 'buy',
+            mutability: 'mutable',
+            payableInTokens: ['*'],
+            inputs: [
+              { name: 'auction_id', type: 'u64' },
+              { name: 'nft_type', type: 'TokenIdentifier' },
+              { name: 'nft_nonce', type: 'u64' },
+              { name: 'quantity', type: 'BigUint' },
+            ],
+            outputs: [],
+          },
+          {
+            name: 'bid',
+            mutability: 'mutable',
+            payableInTokens: ['*'],
+            inputs: [{ name: 'ids', type: 'variadic<u64>', multi_arg: true }],
+            outputs: [],
+          },
+        ],
+      })
+    );
+    sc = await SCInteraction.init(new XOXNOClient());
+    jest
+      .spyOn(sc, 'getAcceptedPaymentTokens')
+      .mockResolvedValue(['EGLD', 'USDC-c76f1f']);
+    jest.spyOn(sc, 'getAuctionInfo').mockResolvedValue(auction);
+    jest
+      .spyOn(sc, 'getUserPoolBalance')
+      .mockResolvedValue(TokenAmount.egld('0.5'));
+  });
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async (input) => {
+        const url = new URL(input.toString());
+        if (url.pathname.endsWith('/network-account')) {
+          return new Response(
+            JSON.stringify({ address: buyer, balance: '2000000000000000000' })
+          );
+        }
+        if (url.pathname.endsWith('/token-inventory')) {
+          return new Response(
+            JSON.stringify({
+              tokens: [{ identifier: 'USDC-c76f1f', balance: '5000000' }],
+            })
+          );
+        }
+        if (url.pathname.endsWith('/tokens')) {
+          return new Response(
+            JSON.stringify({
+              'USDC-c76f1f': {
+                identifier: 'USDC-c76f1f',
+                name: 'WrappedUSDC',
+                ticker: 'USDC',
+                decimals: 6,
+              },
+            })
+          );
+        }
+        return new Response(
+          JSON.stringify({
+            identifier: 'EAPES-8f3c1f-01',
+            owner: { address: seller, username: '', profile: '' },
+          })
+        );
+      });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should accept a valid listing', async () => {
+    const issues = await sc.validate.listNFTs(
+      [
+        {
+          collection: 'EAPES-8f3c1f',
+          nonce: 1,
+          nft_amount: 1,
+          min_bid: '1',
+          max_bid: '2',
+          deadline: now() + hour,
+          accepted_payment_token: 'EGLD',
+          bid: true,
+        },
+      ],
+      { address: seller }
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it('should report every issue of a listing with its path', async () => {
+    const issues = await sc.validate.listNFTs(
+      [
+        {
+          collection: 'EAPES-8f3c1f',
+          nonce: 1,
+          nft_amount: 1,
+          min_bid: '2',
+          max_bid: '1',
+          deadline: now() - hour,
+          accepted_payment_token: 'RIDE-7d18e9',
+          bid: true,
+        },
+      ],
+      { address: buyer }
+    );
+    expect(codes(issues)).toEqual([
+      PreflightIssueCode.UnacceptedPaymentToken,
+      PreflightIssueCode.DeadlineInPast,
+      PreflightIssueCode.NotOwner,
+      PreflightIssueCode.InvalidPrice,
+    ]);
+    expect(issues[3].path).toEqual('listings[0].max_bid');
+  });
+
+  it('should check the bid against the auction and the balance', async () => {
+    expect(
+      await sc.validate.bidOnAuctionId(
+        7,
+        'EAPES-8f3c1f',
+        1,
+        { collection: 'EGLD', nonce: 0, amount: 1.5 },
+        { address: buyer }
+      )
+    ).toEqual([]);
+
+    const issues = await sc.validate.bidOnAuctionId(
+      7,
+      'EAPES-8f3c1f',
+      1,
+      { collection: 'EGLD', nonce: 0, amount: 0.5 },
+      { address: seller }
+    );
+    expect(codes(issues)).toEqual([
+      PreflightIssueCode.OwnAuction,
+      PreflightIssueCode.InvalidPrice,
+    ]);
+  });
+
+  it('should report a bid above the balance of the sender', async () => {
+    const issues = await sc.validate.bidOnAuctionId(
+      7,
+      'EAPES-8f3c1f',
+      1,
+      TokenAmount.egld(3),
+      { address: buyer }
+    );
+    expect(codes(issues)).toEqual([PreflightIssueCode.InsufficientBalance]);
+    expect(issues[0].path).toEqual('payment.amount');
+  });
+
+  it('should check that the deposit covers the offered price', async () => {
+    const offer = {
+      payment_token: 'EGLD',
+      payment_nonce: 0,
+      nft: { collection: 'EAPES-8f3c1f', nonce: 1 },
+      deadline: now() + hour,
+      address: buyer,
+    };
+    expect(
+      await sc.validate.sendCustomOffer({
+        ...offer,
+        price: 1,
+        depositAmount: 1,
+      })
+    ).toEqual([]);
+    expect(
+      codes(await sc.validate.sendCustomOffer({ ...offer, price: 1 }))
+    ).toEqual([PreflightIssueCode.InsufficientBalance]);
+  });
+
+  it('should scale a number price with the decimals of the payment token', async () => {
+    // The pool balance of 0.5 * 10^18 covers 10 USDC, not 10 * 10^18
+    expect(
+      await sc.validate.sendGlobalOffer({
+        payment_token: 'USDC-c76f1f',
+        payment_nonce: 0,
+        collection: 'EAPES-8f3c1f',
+        price: 10,
+        address: buyer,
+      })
+    ).toEqual([]);
+  });
+
+  it('should check the buy of an auction against the auction and the balance', async () => {
+    expect(
+      await sc.validate.buyAuctionById({ auctionID: 7, address: buyer })
+    ).toEqual([]);
+    expect(
+      codes(await sc.validate.buyAuctionById({ auctionID: 7, address: seller }))
+    ).toEqual([PreflightIssueCode.OwnAuction]);
+
+    const expensive = { ...auction, min_bid: '3000000000000000000' };
+    jest
+      .spyOn(sc, 'getAuctionInfo')
+      .mockResolvedValueOnce(expensive)
+      .mockResolvedValueOnce(expensive);
+    const issues = await sc.validate.buyAuctionById({
+      auctionID: 7,
+      address: buyer,
+    });
+    expect(codes(issues)).toEqual([PreflightIssueCode.InsufficientBalance]);
+    expect(issues[0].path).toEqual('paymentAmount');
+  });
+
+  it('should report a bulk buy above the token balance of the sender', async () => {
+    const issues = await sc.validate.bulkBuy(
+      [1, 2],
+      TokenAmount.fromAmount('USDC-c76f1f', 10, 6),
+      { address: buyer }
+    );
+    expect(codes(issues)).toEqual([PreflightIssueCode.InsufficientBalance]);
+    expect(issues[0].path).toEqual('payment.amount');
+  });
+
+  it('should check the buy of a listing returned by the search', async () => {
+    const nft = {
+      collection: 'EAPES-8f3c1f',
+      nonce: 1,
+      saleInfo: {
+        auctionId: 7,
+        seller,
+        minBid: '1000000000000000000',
+        paymentToken: 'EGLD',
+        paymentTokenNonce: 0,
+        quantity: 1,
+        marketplace: 'XO',
+      } as SaleInfo,
+    };
+    expect(await sc.validate.buyListing(nft, { address: buyer })).toEqual([]);
+    expect(
+      codes(await sc.validate.buyListing(nft, { address: buyer }, 3))
+    ).toEqual([PreflightIssueCode.InvalidPrice]);
+    expect(
+      codes(
+        await sc.validate.buyListing(
+          { ...nft, saleInfo: undefined },
+          { address: buyer }
+        )
+      )
+    ).toEqual([PreflightIssueCode.AuctionNotFound]);
+  });
+
+  it('should check that the sender owns the listing accepting a global offer', async () => {
+    jest.spyOn(sc, 'getGlobalOfferIDs').mockResolvedValueOnce([1, 2]);
+    const issues = await sc.validate.acceptGlobalOffer({
+      offer_id: 3,
+      auction_id_opt: 7,
+      address: buyer,
+    });
+    expect(codes(issues)).toEqual([
+      PreflightIssueCode.OfferNotFound,
+      PreflightIssueCode.NotOwner,
+    ]);
+  });
+
+  it('should not report the failed offer lookups as missing offers', async () => {
+    jest
+      .spyOn(sc, 'getGlobalOfferIDs')
+      .mockRejectedValueOnce(new Error('Gateway timeout'));
+    await expect(
+      sc.validate.acceptGlobalOffer({
+        offer_id: 3,
+        auction_id_opt: 7,
+        address: buyer,
+      })
+    ).rejects.toThrow('Gateway timeout');
+  });
+});
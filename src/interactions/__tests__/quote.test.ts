@@ -0,0 +1,144 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { XOXNOValidationError } from '../../utils/errors';
+import { Auction, AuctionType } from '../../types/interactions';
+import type { NftData } from '../../types/nft';
+import type { OfferBody } from '../../types/user';
+import type { GlobalOffer } from '../../types/collection';
+
+const auction = {
+  auctioned_token_type: 'EAPES-8f3c1f',
+  auctioned_token_nonce: 1,
+  nr_auctioned_tokens: 5,
+  auction_type: AuctionType.SftOnePerPayment,
+  payment_token_type: 'USDC-c76f1f',
+  payment_token_nonce: 0,
+  min_bid: '10000000',
+  max_bid: '10000000',
+  current_bid: '0',
+  marketplace_cut_percentage: '200',
+  creator_royalties_percentage: '750',
+} as Auction;
+
+const nft = {
+  identifier: 'EAPES-8f3c1f-01',
+  royalties: 5,
+  saleInfo: {
+    auctionId: 7,
+    minBid: '1000000000000000000',
+    paymentToken: 'EGLD',
+    paymentTokenNonce: 0,
+    auctionType: 'Nft',
+    quantity: 1,
+    marketplace: 'XO',
+  },
+} as NftData;
+
+describe('SCInteraction trade quotes', () => {
+  let sc: SCInteraction;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest
+      .spyOn(SmartContractAbis, 'getMarket')
+      .mockResolvedValue(AbiRegistry.create({ endpoints: [] }));
+    sc = await SCInteraction.init(new XOXNOClient());
+    jest.spyOn(sc, 'getAuctionInfo').mockResolvedValue(auction);
+    jest.spyOn(sc, 'getMarketplaceFees').mockResolvedValue(200);
+    jest.spyOn(sc, 'getGlobalOfferData').mockResolvedValue({
+      payment_token: 'EGLD',
+      payment_nonce: 0,
+      price: '2000000000000000000',
+      quantity: 2,
+    } as GlobalOffer);
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async (input) =>
+      new URL(input.toString()).pathname.endsWith('/usd-price')
+        ? new Response(JSON.stringify({ EGLD: 40, 'USDC-c76f1f': 1 }))
+        : new Response(
+            JSON.stringify({
+              'USDC-c76f1f': {
+                identifier: 'USDC-c76f1f',
+                name: 'WrappedUSDC',
+                ticker: 'USDC',
+                decimals: 6,
+              },
+            })
+          )
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should quote an auction with its fees', async () => {
+    const quote = await sc.quoteTrade(7, 3);
+    expect(quote.gross.toString()).toEqual('30 USDC-c76f1f');
+    expect(quote.marketplaceFee.toDenominated()).toEqual('0.6');
+    expect(quote.royalties.toDenominated()).toEqual('2.25');
+    expect(quote.sellerNet.toDenominated()).toEqual('27.15');
+    expect(quote.buyerTotal.toDenominated()).toEqual('30');
+    expect(quote.usd?.sellerNet).toBeCloseTo(27.15);
+  });
+
+  it('should quote the whole lot of a SftAll auction', async () => {
+    jest.spyOn(sc, 'getAuctionInfo').mockResolvedValueOnce({
+      ...auction,
+      auction_type: 'SftAll' as unknown as AuctionType,
+      min_bid: '50000000',
+    });
+    const quote = await sc.quoteTrade(7);
+    expect(quote.gross.toDenominated()).toEqual('50');
+    expect(quote.quantity).toEqual(5);
+  });
+
+  it('should not quote more tokens than listed', async () => {
+    await expect(sc.quoteTrade(7, 6)).rejects.toThrow(XOXNOValidationError);
+    await expect(sc.quoteTrade(nft, 2)).rejects.toThrow(
+      'The quantity must be between 1 and the 1 listed tokens'
+    );
+  });
+
+  it('should quote a listing returned by the NFT search', async () => {
+    const quote = await sc.quoteTrade(nft);
+    expect(quote.marketplaceFeeBps).toEqual(200);
+    expect(quote.royaltiesBps).toEqual(500);
+    expect(quote.sellerNet.toDenominated()).toEqual('0.93');
+    expect(quote.usd?.buyerTotal).toEqual(40);
+  });
+
+  it('should not quote NFTs listed on other marketplaces', async () => {
+    await expect(
+      sc.quoteTrade({
+        ...nft,
+        saleInfo: { ...nft.saleInfo, marketplace: 'FM' },
+      } as NftData)
+    ).rejects.toThrow(XOXNOValidationError);
+  });
+
+  it('should quote the acceptance of a global offer', async () => {
+    const quote = await sc.quoteGlobalOfferAcceptance(3, nft, 2);
+    expect(quote.gross.toDenominated()).toEqual('4');
+    expect(quote.sellerNet.toDenominated()).toEqual('3.72');
+    await expect(sc.quoteGlobalOfferAcceptance(3, nft, 3)).rejects.toThrow(
+      XOXNOValidationError
+    );
+  });
+
+  it('should quote the acceptance of a custom offer', async () => {
+    const quote = await sc.quoteCustomOfferAcceptance({
+      paymentToken: 'EGLD',
+      paymentTokenNonce: 0,
+      price: '500000000000000000',
+      quantity: 1,
+      nftInfo: nft,
+    } as OfferBody);
+    expect(quote.royalties.toDenominated()).toEqual('0.025');
+    expect(quote.sellerNet.toDenominated()).toEqual('0.465');
+  });
+});
@@ -0,0 +1,38 @@
+import { StakingInteraction } from '../staking';
+import { XOXNOClient } from '../../utils/api';
+
+describe('StakingInteraction', () => {
+  let sc: StakingInteraction;
+  beforeAll(async () => {
+    XOXNOClient.init({ rateLimit: { requestsPerSecond: 1 } });
+    sc = await StakingInteraction.init();
+  });
+
+  it('should return the staking pool IDs', async () => {
+    const ids = await sc.getPoolIds();
+    expect(ids).toBeDefined();
+    expect(ids.length).toBeGreaterThan(1);
+  });
+
+  it('should create the transaction to claim rewards', async () => {
+    const interaction = sc.claimRewards([1, 2], {
+      address: 'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57',
+      nonce: 1,
+    });
+    const tx = interaction.buildTransaction().toSendable();
+    expect(tx.nonce).toEqual(1);
+    expect(tx.gasLimit).toEqual(25_000_000);
+    expect(Buffer.from(tx.data ?? '', 'base64').toString()).toEqual(
+      'claimRewards@01@02'
+    );
+  });
+
+  it('should reject staking without NFTs', () => {
+    expect(() =>
+      sc.stake(1, [], {
+        address:
+          'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57',
+      })
+    ).toThrow('At least one NFT is required');
+  });
+});
@@ -0,0 +1,131 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { XOXNOValidationError } from '../../utils/errors';
+import { TokenAmount } from '../../utils/tokenAmount';
+import type { AshSwapPaymentData } from '../../types/common';
+
+const quote: AshSwapPaymentData = {
+  paymentToken: 'USDC-c76f1f',
+  swapAmount: 25,
+  argument: '0102',
+  limits: ['900000000000000000', '990000000000000000'],
+  bigUintAmount: '25000000',
+  extraGasLimit: 30_000_000,
+};
+
+const address =
+  'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+
+describe('SCInteraction swap payments', () => {
+  let sc: SCInteraction;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest.spyOn(SmartContractAbis, 'getMarket').mockResolvedValue(
+      AbiRegistry.create({
+        endpoints: [
+          {
+            name: 'swapAndBuy',
+            mutability: 'mutable',
+            payableInTokens: ['*'],
+            inputs: [
+              { name: 'swap_argument', type: 'bytes' },
+              { name: 'limits', type: 'List<BigUint>' },
+              { name: 'auction_ids', type: 'variadic<u64>', multi_arg: true },
+            ],
+            outputs: [],
+          },
+        ],
+      })
+    );
+    sc = await SCInteraction.init(new XOXNOClient());
+  });
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => new Response(JSON.stringify(quote)));
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should pay the quoted swap amount plus the slippage', async () => {
+    const interaction = await sc.bulkBuyWithSwap(
+      [1, 2],
+      { collection: 'EGLD', nonce: 0, amount: 1 },
+      'USDC-c76f1f',
+      { address, nonce: 3 }
+    );
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toEqual('/ash/min-token-quantity');
+    expect(url.searchParams.get('originalTokenValue')).toEqual(
+      '1000000000000000000'
+    );
+    expect(
+      interaction.getTokenTransfers()[0].amountAsBigInteger.toString()
+    ).toEqual('25250000');
+    expect(Number(interaction.getGasLimit())).toEqual(60_000_000);
+  });
+
+  it('should keep the quoted limits and raise the last one to the listing price', () => {
+    const interaction = sc.bulkBuy(
+      [1, 2],
+      TokenAmount.egld(1),
+      { address },
+      { quote, slippage: 0.02 }
+    );
+    const [transfer] = interaction.getTokenTransfers();
+    expect(transfer.tokenIdentifier).toEqual('USDC-c76f1f');
+    expect(transfer.amountAsBigInteger.toString()).toEqual('25500000');
+    // 0.9 EGLD is kept as quoted, 0.99 EGLD is raised to the 1 EGLD price
+    expect(Buffer.from(interaction.buildTransaction().data).toString()).toMatch(
+      /@73776170416e64427579@0102@000000080c7d713b49da0000000000080de0b6b3a7640000@01@02$/
+    );
+  });
+
+  it('should route buyAuctionById to the swap when the tokens differ', async () => {
+    const interaction = await sc.buyAuctionById({
+      auctionID: 7,
+      collection: 'EAPES-8f3c1f',
+      nonce: 1,
+      paymentAmount: 2,
+      withCheck: false,
+      swapToken: 'USDC-c76f1f',
+      address,
+    });
+    expect(interaction.getFunction().name).toEqual('swapAndBuy');
+    await expect(
+      sc.buyAuctionById({
+        auctionID: 7,
+        collection: 'EAPES-8f3c1f',
+        nonce: 1,
+        paymentAmount: 2,
+        quantity: 2,
+        withCheck: false,
+        swapToken: 'USDC-c76f1f',
+        address,
+      })
+    ).rejects.toThrow(XOXNOValidationError);
+  });
+
+  it('should require the swapAndBuy endpoint in the ABI', async () => {
+    jest
+      .spyOn(SmartContractAbis, 'getMarket')
+      .mockResolvedValueOnce(AbiRegistry.create({ endpoints: [] }));
+    const market = await SCInteraction.init(new XOXNOClient());
+    fetchMock.mockClear();
+    await expect(
+      market.bulkBuyWithSwap(
+        [1],
+        { collection: 'EGLD', nonce: 0, amount: 1 },
+        'USDC-c76f1f',
+        { address }
+      )
+    ).rejects.toThrow(XOXNOValidationError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { SCInteraction } from '../index';
+import { XOXNOClient } from '../../utils/api';
+import { SmartContractAbis } from '../../utils/SmartContractAbis';
+import { XOXNOValidationError } from '../../utils/errors';
+import { TokenAmount } from '../../utils/tokenAmount';
+
+const sender = {
+  address: 'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57',
+  nonce: 5,
+};
+
+const listing = (auctionId: number, price: number, paymentToken = 'EGLD') => ({
+  identifier: `EAPES-8f3c1f-${auctionId}`,
+  collection: 'EAPES-8f3c1f',
+  nonce: auctionId,
+  saleInfo: {
+    auctionId,
+    minBid: BigInt(price * 1e9).toString() + '000000000',
+    minBidShort: price,
+    paymentToken,
+    paymentTokenNonce: 0,
+    quantity: 1,
+    marketplace: 'XO',
+  },
+});
+
+describe('SCInteraction.sweep', () => {
+  let sc: SCInteraction;
+  let fetchMock: jest.SpyInstance;
+
+  beforeAll(async () => {
+    jest.spyOn(SmartContractAbis, 'getMarket').mockResolvedValue(
+      AbiRegistry.create({
+        endpoints: [
+          {
+            name: 'bid',
+            mutability: 'mutable',
+            payableInTokens: ['*'],
+            inputs: [{ name: 'ids', type: 'variadic<u64>', multi_arg: true }],
+            outputs: [],
+          },
+        ],
+      })
+    );
+    sc = await SCInteraction.init(new XOXNOClient());
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            resources: [
+              listing(1, 1),
+              listing(2, 1.5),
+              listing(3, 2),
+              listing(4, 4),
+            ],
+            hasMoreResults: false,
+          })
+        )
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should buy the cheapest listings within the budget', async () => {
+    const [interaction, ...rest] = await sc.sweep(
+      { collection: 'EAPES-8f3c1f', budget: 5, maxRank: 1000 },
+      sender
+    );
+    const transaction = interaction.buildTransaction();
+    expect(rest).toHaveLength(0);
+    expect(transaction.value).toEqual(BigInt('4500000000000000000'));
+    expect(Buffer.from(transaction.data).toString()).toEqual('bid@01@02@03');
+    const filter = JSON.parse(
+      new URL(fetchMock.mock.calls[0][0]).searchParams.get('filter') as string
+    );
+    expect(filter.filters.saleInfo.paymentToken).toEqual(['EGLD']);
+    expect(filter.filters.range).toEqual([
+      { min: 1, max: 1000, field: 'metadata.rarity.rank' },
+    ]);
+  });
+
+  it('should compare the budget in the smallest unit of the token', async () => {
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            resources: [listing(1, 0.1), listing(2, 0.2), listing(3, 0.3)],
+            hasMoreResults: false,
+          })
+        )
+    );
+    // 0.1 + 0.2 is over 0.3 in floating point
+    const [interaction] = await sc.sweep(
+      {
+        collection: 'EAPES-8f3c1f',
+        budget: TokenAmount.fromAmount('EGLD', 0.3, 18),
+      },
+      sender
+    );
+    const transaction = interaction.buildTransaction();
+    expect(transaction.value).toEqual(BigInt('300000000000000000'));
+    expect(Buffer.from(transaction.data).toString()).toEqual('bid@01@02');
+  });
+
+  it('should reject a budget in another token than the payment token', async () => {
+    await expect(
+      sc.sweep(
+        {
+          collection: 'EAPES-8f3c1f',
+          budget: TokenAmount.fromAmount('EGLD', 1, 18),
+          paymentToken: 'USDC-c76f1f',
+        },
+        sender
+      )
+    ).rejects.toThrow(XOXNOValidationError);
+  });
+
+  it('should split the listings in batches with consecutive nonces', async () => {
+    const interactions = await sc.sweep(
+      { collection: 'EAPES-8f3c1f', count: 3, batchSize: 2 },
+      sender
+    );
+    expect(interactions).toHaveLength(2);
+    expect(interactions[1].buildTransaction().nonce).toEqual(BigInt(6));
+    expect(Number(interactions[1].getGasLimit())).toEqual(25_000_000);
+  });
+
+  it('should start the nonces of a fresh account at 0', async () => {
+    const interactions = await sc.sweep(
+      { collection: 'EAPES-8f3c1f', count: 3, batchSize: 2 },
+      { ...sender, nonce: 0 }
+    );
+    expect(
+      interactions.map((interaction) => interaction.buildTransaction().nonce)
+    ).toEqual([BigInt(0), BigInt(1)]);
+  });
+
+  it('should require a budget or a count', async () => {
+    await expect(
+      sc.sweep({ collection: 'EAPES-8f3c1f' }, sender)
+    ).rejects.toThrow(XOXNOValidationError);
+  });
+});
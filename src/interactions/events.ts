@@ -0,0 +1,229 @@
+import type { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { ResultsParser } from '@multiversx/sdk-core/out/smartcontracts/resultsParser';
+import type { TransactionEvent } from '@multiversx/sdk-network-providers/out/transactionEvents';
+import type { TransactionOnNetwork } from '@multiversx/sdk-network-providers/out/transactions';
+import BigNumber from 'bignumber.js';
+import { XOXNOClient } from '../utils/api';
+import { SmartContractAbis } from '../utils/SmartContractAbis';
+import { Market } from '../types/interactions';
+import { XOXNOError } from '../utils/errors';
+import { EXTERNAL_MARKETS } from '../utils/const';
+import { MarketEvent } from '../types/transactions';
+import { NftActivityType } from '../types/trading';
+
+type EventFields = Record<string, any>;
+type EventSource = Pick<MarketEvent, 'market' | 'name'>;
+
+/**
+ * The decoder of each marketplace event, the events missing here are ignored.
+ * The field names are the ones of the events of the esdt-nft-marketplace contract the marketplaces derive from,
+ * an event emitted with other fields is skipped by the parser instead of being returned incomplete.
+ */
+const EVENT_DECODERS: Record<
+  string,
+  (fields: EventFields, source: EventSource) => MarketEvent
+> = {
+  auction_token_event: (fields, source) => ({
+    ...source,
+    type: NftActivityType.LISTING_CREATE,
+    auctionId: toNumber(fields, source, 'auction_id'),
+    collection: toString(fields, source, 'auction_token_id'),
+    nonce: toNumber(fields, source, 'auctioned_token_nonce'),
+    quantity: toNumber(fields, source, 'auctioned_token_amount'),
+    seller: toString(fields, source, 'seller'),
+    paymentToken: toString(fields, source, 'accepted_payment_token'),
+    paymentNonce: toNumber(fields, source, 'accepted_payment_token_nonce'),
+    price: toString(fields, source, 'min_bid'),
+    maxBid: toString(fields, source, 'max_bid'),
+  }),
+  withdraw_event: (fields, source) => ({
+    ...source,
+    type: NftActivityType.LISTING_WITHDRAW,
+    auctionId: toNumber(fields, source, 'auction_id'),
+    collection: toString(fields, source, 'auction_token_id'),
+    nonce: toNumber(fields, source, 'auctioned_token_nonce'),
+    quantity: toNumber(fields, source, 'nr_auctioned_tokens'),
+    seller: toString(fields, source, 'seller'),
+  }),
+  bid_event: (fields, source) => ({
+    ...source,
+    type: NftActivityType.AUCTION_BID,
+    auctionId: toNumber(fields, source, 'auction_id'),
+    collection: toString(fields, source, 'auction_token_id'),
+    nonce: toNumber(fields, source, 'auctioned_token_nonce'),
+    quantity: toNumber(fields, source, 'nr_auctioned_tokens'),
+    buyer: toString(fields, source, 'bidder'),
+    price: toString(fields, source, 'bid_amount'),
+  }),
+  buy_sft_event: (fields, source) => ({
+    ...source,
+    type: NftActivityType.TRADE,
+    auctionId: toNumber(fields, source, 'auction_id'),
+    collection: toString(fields, source, 'auction_token_id'),
+    nonce: toNumber(fields, source, 'auctioned_token_nonce'),
+    quantity: toNumber(fields, source, 'nr_bought_tokens'),
+    buyer: toString(fields, source, 'buyer'),
+    seller: toString(fields, source, 'seller'),
+    price: toString(fields, source, 'bid_sft_amount'),
+  }),
+  end_auction_event: (fields, source) => ({
+    ...source,
+    type: NftActivityType.AUCTION_TRADE,
+    auctionId: toNumber(fields, source, 'auction_id'),
+    collection: toString(fields, source, 'auction_token_id'),
+    nonce: toNumber(fields, source, 'auctioned_token_nonce'),
+    quantity: toNumber(fields, source, 'nr_auctioned_tokens'),
+    buyer: toString(fields, source, 'auction_winner'),
+    seller: toString(fields, source, 'auction_seller'),
+    price: toString(fields, source, 'winning_bid_amount'),
+  }),
+  // The offer events are XOXNO only, they are not emitted by the esdt-nft-marketplace contract
+  accept_offer_token_event: (fields, source) => ({
+    ...source,
+    type: NftActivityType.OFFER_TRADE,
+    offerId: toNumber(fields, source, 'offer_id'),
+    collection: toString(fields, source, 'collection'),
+    nonce: toNumber(fields, source, 'nonce'),
+    quantity: toNumber(fields, source, 'quantity'),
+    buyer: toString(fields, source, 'buyer'),
+    seller: toString(fields, source, 'seller'),
+    paymentToken: toString(fields, source, 'payment_token'),
+    paymentNonce: toNumber(fields, source, 'payment_nonce'),
+    price: toString(fields, source, 'price'),
+  }),
+  accept_global_offer_token_event: (fields, source) => ({
+    ...source,
+    type: NftActivityType.GLOBAL_OFFER_TRADE,
+    offerId: toNumber(fields, source, 'offer_id'),
+    collection: toString(fields, source, 'collection'),
+    nonce: toNumber(fields, source, 'nonce'),
+    quantity: toNumber(fields, source, 'quantity'),
+    buyer: toString(fields, source, 'buyer'),
+    seller: toString(fields, source, 'seller'),
+    paymentToken: toString(fields, source, 'payment_token'),
+    paymentNonce: toNumber(fields, source, 'payment_nonce'),
+    price: toString(fields, source, 'price'),
+  }),
+};
+
+/**
+ * MarketEventsParser decodes the marketplace events of a transaction into MarketEvent objects.
+ * The events are decoded with the ABI of the marketplace that emitted them and typed with the NftActivityType
+ * of the trading activity feed, e.g. a buy is a `trade` and an accepted global offer a `globalOfferTrade`.
+ * The XOXNO events are decoded, and the ones of Frame It, DeadRare and Krogan when their ABI is verified.
+ *
+ * @example
+ * const parser = await MarketEventsParser.init();
+ * for (const event of parser.parseTransaction(transactionOnNetwork)) {
+ *   if (event.type === NftActivityType.TRADE) {
+ *     console.log(event.auctionId, event.price, event.buyer, event.seller);
+ *   }
+ * }
+ */
+export class MarketEventsParser {
+  private readonly markets: Map<string, { market: Market; abi: AbiRegistry }>;
+  private readonly parser = new ResultsParser();
+
+  private constructor(
+    markets: Map<string, { market: Market; abi: AbiRegistry }>
+  ) {
+    this.markets = markets;
+  }
+
+  static async init(api: XOXNOClient = XOXNOClient.init()) {
+    const [marketAbiXOXNO, ...externalAbis] = await Promise.all([
+      SmartContractAbis.getMarket(api),
+      // The events of a marketplace without a verified ABI are skipped
+      ...EXTERNAL_MARKETS.map((market) =>
+        SmartContractAbis.getExternalMarket(market, api).catch(() => undefined)
+      ),
+    ]);
+    const markets = new Map<string, { market: Market; abi: AbiRegistry }>([
+      [api.config.XO_SC, { market: 'XO', abi: marketAbiXOXNO }],
+    ]);
+    EXTERNAL_MARKETS.forEach((market, index) => {
+      const abi = externalAbis[index];
+      if (abi) {
+        markets.set(api.config[`${market}_SC`], { market, abi });
+      }
+    });
+
+    return new MarketEventsParser(markets);
+  }
+
+  /**
+   * Decodes the marketplace events of a completed transaction, including the ones of its smart contract results.
+   * @param transaction - The transaction fetched from the network, e.g. by TransactionWatcher.awaitCompleted.
+   * @returns The marketplace events, in the order they were emitted.
+   */
+  public parseTransaction = (
+    transaction: TransactionOnNetwork
+  ): MarketEvent[] => {
+    return this.parseEvents([
+      ...transaction.logs.events,
+      ...transaction.contractResults.items.flatMap(({ logs }) => logs.events),
+    ]);
+  };
+
+  /**
+   * Decodes marketplace events, the events of other contracts, unknown to the ABI or which cannot be decoded are skipped.
+   * @param events - The raw events of the transaction logs.
+   * @returns The marketplace events.
+   */
+  public parseEvents = (events: TransactionEvent[]): MarketEvent[] => {
+    return events.flatMap((event) => {
+      const contract = this.markets.get(event.address.bech32());
+      const name = event.topics.length
+        ? Buffer.from(event.topics[0].valueOf()).toString()
+        : '';
+      const decode = EVENT_DECODERS[name];
+      const definition = contract?.abi.events.find(
+        ({ identifier }) => identifier === name
+      );
+      if (!contract || !decode || !definition) {
+        return [];
+      }
+      try {
+        return [
+          decode(this.parser.parseEvent(event, definition), {
+            market: contract.market,
+            name,
+          }),
+        ];
+      } catch {
+        // An event whose ABI lacks a field or whose topics do not match it would be incomplete
+        return [];
+      }
+    });
+  };
+}
+
+/** Reads a field of a decoded event, throws when the ABI of the event has no such field */
+const getField = (fields: EventFields, source: EventSource, field: string) => {
+  const value = fields[field];
+  if (value === undefined || value === null) {
+    throw new XOXNOError(
+      `The ${source.name} event of ${source.market} has no ${field} field`
+    );
+  }
+  return value;
+};
+
+/** Converts the decoded addresses, big numbers and buffers to strings */
+const toString = (
+  fields: EventFields,
+  source: EventSource,
+  field: string
+): string => {
+  const value = getField(fields, source, field);
+  if (typeof value.bech32 === 'function') {
+    return value.bech32();
+  }
+  return BigNumber.isBigNumber(value) ? value.toFixed() : value.toString();
+};
+
+const toNumber = (
+  fields: EventFields,
+  source: EventSource,
+  field: string
+): number => Number(getField(fields, source, field));
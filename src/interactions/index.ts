@@ -1,5 +1,12 @@
 import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
-import { GlobalOffer } from '../types/collection';
+import {
+  AuctionTypes,
+  GlobalOffer,
+  GlobalOffers,
+  Marketplace,
+  SearchOrderBy,
+} from '../types/collection';
+import type { NftData, SaleInfo } from '../types/nft';
 import { XOXNOClient } from '..';
 import { ContractQueryRunner } from '../utils/scCalls';
 import { SmartContractAbis } from '../utils/SmartContractAbis';
@@ -16,13 +23,21 @@ import {
   Auction,
   AuctionType,
   ChangeListing,
+  ExternalMarket,
+  GlobalOfferMatches,
+  GlobalOfferQuote,
+  Market,
   NFTBody,
   NewListingArgs,
   Payment,
   SendCustomOffer,
   SendGlobalOffer,
+  SweepArgs,
+  TradeQuote,
   WithSenderAndNonce,
+  SwapPayment,
 } from '../types/interactions';
+import type { OfferBody } from '../types/user';
 import BigNumber from 'bignumber.js';
 import {
   Struct,
@@ -42,28 +57,178 @@ import {
 } from '@multiversx/sdk-core/out/smartcontracts/typesystem/boolean';
 import { Address } from '@multiversx/sdk-core/out/address';
 import { TokenTransfer } from '@multiversx/sdk-core/out/tokens';
+import { ContractQueryError, XOXNOValidationError } from '../utils/errors';
+import { EXTERNAL_MARKETS } from '../utils/const';
+import { globalOfferSchema } from '../utils/schemas';
+import { CollectionModule } from '../collection';
+import { CommonModule } from '../common';
+import { TokenAmount } from '../utils/tokenAmount';
+import { TokenRegistry } from '../utils/tokenRegistry';
+import { toTokenTransfer } from '../utils/helpers';
+import { PreflightValidator } from './preflight';
+
+const MAX_GAS_LIMIT = 600_000_000;
+const BULK_BUY_BASE_GAS = 20_000_000;
+const BULK_BUY_GAS_PER_NFT = 5_000_000;
+/** The number of global offers queried at once from the contract */
+const GLOBAL_OFFER_QUERY_BATCH = 10;
+
 export class SCInteraction {
   private xo: SmartContract;
+  private markets: Partial<Record<ExternalMarket, SmartContract>>;
   private call: ContractQueryRunner;
   private api: XOXNOClient;
-  private constructor(marketAbiXOXNO: SmartContract) {
+  private tokens: TokenRegistry;
+  /** Opt-in pre-flight checks of the builder arguments, reporting the transactions that would fail on-chain */
+  public readonly validate: PreflightValidator;
+  private constructor(
+    marketAbiXOXNO: SmartContract,
+    api: XOXNOClient,
+    markets: Partial<Record<ExternalMarket, SmartContract>>
+  ) {
     this.xo = marketAbiXOXNO;
-    this.call = new ContractQueryRunner();
-    this.api = XOXNOClient.init();
+    this.markets = markets;
+    this.call = new ContractQueryRunner(api);
+    this.api = api;
+    this.tokens = TokenRegistry.for(api);
+    this.validate = new PreflightValidator(this, api);
   }
 
-  static async init() {
-    const config = XOXNOClient.init().config;
-    const marketAbiXOXNO = await SmartContractAbis.getMarket();
-    const xo_abi = getSmartContract(marketAbiXOXNO, config.XO_SC);
+  static async init(api: XOXNOClient = XOXNOClient.init()) {
+    // The builders read the decimals of the payment tokens synchronously
+    const tokensLoaded = TokenRegistry.for(api)
+      .load()
+      .catch(() => undefined);
+    const [marketAbiXOXNO, ...externalAbis] = await Promise.all([
+      SmartContractAbis.getMarket(api),
+      // A marketplace without a verified ABI only disables its own routing
+      ...EXTERNAL_MARKETS.map((market) =>
+        SmartContractAbis.getExternalMarket(market, api).catch(() => undefined)
+      ),
+    ]);
+    const xo_abi = getSmartContract(marketAbiXOXNO, api.config.XO_SC);
+    const markets: Partial<Record<ExternalMarket, SmartContract>> = {};
+    EXTERNAL_MARKETS.forEach((market, index) => {
+      const abi = externalAbis[index];
+      if (abi) {
+        markets[market] = getSmartContract(abi, api.config[`${market}_SC`]);
+      }
+    });
+    await tokensLoaded;
 
-    return new SCInteraction(xo_abi);
+    return new SCInteraction(xo_abi, api, markets);
   }
 
   private async getResult(interaction: Interaction) {
     return await this.call.runQuery(this.xo, interaction);
   }
 
+  private getMarketContract(market: Market): SmartContract {
+    const contract = market === 'XO' ? this.xo : this.markets[market];
+    if (!contract) {
+      throw new XOXNOValidationError(
+        `The ABI of ${market} is not available, its contract has no verified source code`
+      );
+    }
+    return contract;
+  }
+
+  private withPayment(
+    interaction: Interaction,
+    payment: Payment | TokenAmount
+  ): Interaction {
+    let transfer: TokenTransfer;
+    if (TokenAmount.isTokenAmount(payment)) {
+      if (payment.value.isZero()) {
+        throw new XOXNOValidationError('Payment amount is required');
+      }
+      transfer = payment.toTokenTransfer();
+    } else if (!payment.amount) {
+      throw new XOXNOValidationError('Payment amount is required');
+    } else {
+      transfer = toTokenTransfer(payment, false, this.tokens);
+    }
+    if (transfer.isEgld()) {
+      interaction.withValue(transfer);
+    } else if (transfer.nonce) {
+      interaction.withSingleESDTNFTTransfer(transfer);
+    } else {
+      interaction.withSingleESDTTransfer(transfer);
+    }
+    return interaction;
+  }
+
+  /** Throws when the loaded XOXNO ABI cannot pay listings with a swap */
+  private checkSwapAndBuy() {
+    try {
+      this.xo.getEndpoint('swapAndBuy');
+    } catch {
+      throw new XOXNOValidationError(
+        'Swap payments are not available, the XOXNO marketplace ABI has no swapAndBuy endpoint'
+      );
+    }
+  }
+
+  /**
+   * Builds the swap and buy call from the AshSwap quote of the listing price.
+   * The slippage increases the swapped amount so the output still covers the price when the rate moves,
+   * and the last limit of the quote is raised to the listing price so the listings are always paid in full.
+   */
+  private getSwapBuy(
+    auctionIDs: number[],
+    payment: Payment | TokenAmount,
+    { quote, slippage = 0.01 }: SwapPayment,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!auctionIDs.length) {
+      throw new XOXNOValidationError('At least one auction ID is required');
+    }
+    if (slippage < 0 || slippage >= 1) {
+      throw new XOXNOValidationError('Slippage must be between 0 and 1');
+    }
+    this.checkSwapAndBuy();
+    const price = toTokenTransfer(
+      payment,
+      false,
+      this.tokens
+    ).amountAsBigInteger;
+    const limits = quote.limits.map((limit) => new BigNumber(limit));
+    if (limits.length) {
+      limits[limits.length - 1] = BigNumber.max(
+        limits[limits.length - 1],
+        price
+      );
+    }
+    const interaction = this.xo.methods.swapAndBuy([
+      Buffer.from(quote.argument, 'hex'),
+      limits,
+      ...auctionIDs,
+    ]);
+    interaction.withMultiESDTNFTTransfer([
+      TokenTransfer.fungibleFromBigInteger(
+        quote.paymentToken === 'EGLD' ? 'EGLD-000000' : quote.paymentToken,
+        new BigNumber(quote.bigUintAmount)
+          .multipliedBy(1 + slippage)
+          .integerValue(BigNumber.ROUND_CEIL)
+      ),
+    ]);
+
+    if (sender.nonce !== undefined) {
+      interaction.withNonce(sender.nonce);
+    }
+    return interaction
+      .withSender(new Address(sender.address))
+      .withChainID(this.api.chain)
+      .withGasLimit(
+        Math.min(
+          MAX_GAS_LIMIT,
+          BULK_BUY_BASE_GAS +
+            auctionIDs.length * BULK_BUY_GAS_PER_NFT +
+            quote.extraGasLimit
+        )
+      );
+  }
+
   /**
    * Gets the percentage of each transaction that will be paid to the marketplace.
    *
@@ -101,30 +266,35 @@ export class SCInteraction {
    * @param address The address of the user.
    * @param token The token address.
    * @param nonce The nonce of the pool.
-   * @returns {number} The balance of the user in the token of the pool.
+   * @param decimals The decimals of the token (default is the decimals known by the TokenRegistry).
+   * @returns {TokenAmount} The exact balance of the user in the token of the pool.
    */
   async getUserPoolBalance(
     address: string,
     token: string,
-    nonce: number
-  ): Promise<number> {
-    const result = await this.getResult(
-      this.xo.methods.userDeposit([address, token, nonce])
-    );
+    nonce: number,
+    decimals?: number
+  ): Promise<TokenAmount> {
+    const [result, tokenDecimals] = await Promise.all([
+      this.getResult(this.xo.methods.userDeposit([address, token, nonce])),
+      decimals ?? this.tokens.getDecimals(token),
+    ]);
 
-    if (!result?.firstValue) {
-      return 0;
-    }
-    return new BigUIntValue(result.firstValue.valueOf().amount)
-      .valueOf()
-      .shiftedBy(-18)
-      .toNumber();
+    return TokenAmount.fromBigInteger(
+      token,
+      result?.firstValue ? result.firstValue.valueOf().amount : 0,
+      tokenDecimals,
+      nonce
+    );
   }
 
   // function to determine if the offer is active
-  // based on the offer price and user balance
-  private isOfferActive(offer_price: number, user_balance: number): boolean {
-    return offer_price <= user_balance;
+  // based on the offer price and user balance, both in the smallest unit of the token
+  private isOfferActive(
+    offer_price: BigNumber.Value,
+    user_balance: TokenAmount
+  ): boolean {
+    return user_balance.value.isGreaterThanOrEqualTo(offer_price);
   }
 
   /**
@@ -143,17 +313,21 @@ export class SCInteraction {
     const body = result.firstValue?.valueOf();
     body.offer_id = parseInt(body.offer_id.valueOf());
     body.marketplace = 'XO';
-    body.short_price = parseFloat(
-      new BigUIntValue(body.price).valueOf().shiftedBy(-18).toString()
-    );
+    const decimals = await this.tokens.getDecimals(body.payment_token);
+    body.short_price = TokenAmount.fromBigInteger(
+      body.payment_token,
+      body.price.valueOf(),
+      decimals
+    ).toNumber();
     body.new_version = Boolean(body.new_version);
     if (!body.new_version) {
       body.isActive = this.isOfferActive(
-        body.short_price,
+        body.price.valueOf(),
         await this.getUserPoolBalance(
           body.owner,
           body.payment_token,
-          body.payment_nonce
+          body.payment_nonce,
+          decimals
         )
       );
     } else {
@@ -161,18 +335,22 @@ export class SCInteraction {
     }
     body.quantity = parseInt(body.quantity.valueOf());
     body.payment_nonce = parseInt(body.payment_nonce.valueOf());
-    body.price = body.price.valueOf();
+    body.price = body.price.valueOf().toString(10);
 
     body.timestamp = parseInt(body.timestamp.valueOf());
     body.owner = body.owner.valueOf().toString();
-    if (body.attributes) {
-      body.attributes = JSON.parse(
-        Buffer.from(body.attributes.valueOf().toString(), 'base64').toString(
-          'ascii'
+    body.attributes = body.attributes
+      ? JSON.parse(
+          Buffer.from(body.attributes.valueOf().toString(), 'base64').toString(
+            'ascii'
+          )
         )
-      );
-    }
-    return body as GlobalOffer;
+      : [];
+    return this.api.validate(
+      body as GlobalOffer,
+      globalOfferSchema,
+      'getGlobalOfferData'
+    );
   };
 
   /**
@@ -181,14 +359,21 @@ export class SCInteraction {
    * @param auctionID The id of the auction for which to return the data.
    *
    * @returns {Auction} An object containing the auction data for the given id. If the auction id is invalid, the return value will be null.
+   * @throws {ContractQueryError} When the query cannot reach the contract.
    */
 
   public getAuctionInfo = async (
     auctionID: number
   ): Promise<Auction | null> => {
     const interaction = this.xo.methods.getFullAuctionData([auctionID]);
-    const result = await this.getResult(interaction);
-    const body = result.firstValue?.valueOf();
+    const result = await this.getResult(interaction).catch((error) => {
+      // The contract answers an unknown auction with an error return code
+      if (error instanceof ContractQueryError && error.returnCode) {
+        return null;
+      }
+      throw error;
+    });
+    const body = result?.firstValue?.valueOf();
     if (!body) {
       return null;
     }
@@ -210,6 +395,260 @@ export class SCInteraction {
     return body as Auction;
   };
 
+  /**
+   * Quotes the amounts of buying a XO listing: the gross price, the marketplace fee, the creator royalties,
+   * the amount received by the seller and the amount paid by the buyer, in the payment token and in USD.
+   *
+   * @param source The auction ID, or the NFT with its sale info as returned by the NFT search
+   * @param quantity The quantity bought from an SFT listing, a SftAll auction always sells its whole lot
+   * @returns {TradeQuote} The amounts of the trade
+   * @throws {XOXNOValidationError} When the quantity exceeds the listed one
+   */
+  public async quoteTrade(
+    source: number | NftData,
+    quantity = 1
+  ): Promise<TradeQuote> {
+    if (typeof source === 'number') {
+      const auction = await this.getAuctionInfo(source);
+      if (auction === null) {
+        throw new XOXNOValidationError('Auction not found');
+      }
+      const listing = toListingPrice(
+        auction.auction_type,
+        BigNumber.max(auction.min_bid, auction.current_bid || 0),
+        auction.nr_auctioned_tokens,
+        quantity
+      );
+      return this.toTradeQuote(
+        auction.payment_token_type,
+        auction.payment_token_nonce,
+        listing.price,
+        listing.quantity,
+        Number(auction.marketplace_cut_percentage),
+        Number(auction.creator_royalties_percentage)
+      );
+    }
+    const { saleInfo } = source;
+    if (!saleInfo || toMarket(saleInfo.marketplace) !== 'XO') {
+      throw new XOXNOValidationError(
+        `${source.identifier} is not listed on XO`
+      );
+    }
+    const listing = toListingPrice(
+      saleInfo.auctionType,
+      BigNumber.max(saleInfo.minBid, saleInfo.currentBid || 0),
+      saleInfo.quantity,
+      quantity
+    );
+    return this.toTradeQuote(
+      saleInfo.paymentToken,
+      saleInfo.paymentTokenNonce,
+      listing.price,
+      listing.quantity,
+      await this.getMarketplaceFees(),
+      toRoyaltiesBps(source.royalties)
+    );
+  }
+
+  /**
+   * Quotes the amounts of accepting a global offer, the seller is the user accepting it.
+   *
+   * @param offerID The global offer ID
+   * @param nft The NFT sold, its royalties are paid to the creator
+   * @param quantity The quantity sold to an offer for several SFTs
+   * @returns {TradeQuote} The amounts of the trade
+   */
+  public async quoteGlobalOfferAcceptance(
+    offerID: number,
+    nft: NftData,
+    quantity = 1
+  ): Promise<TradeQuote> {
+    const offer = await this.getGlobalOfferData(offerID);
+    if (quantity > offer.quantity) {
+      throw new XOXNOValidationError(
+        `Global offer ${offerID} only buys ${offer.quantity} tokens`
+      );
+    }
+    return this.toTradeQuote(
+      offer.payment_token,
+      offer.payment_nonce,
+      new BigNumber(offer.price).multipliedBy(quantity),
+      quantity,
+      await this.getMarketplaceFees(),
+      toRoyaltiesBps(nft.royalties)
+    );
+  }
+
+  /**
+   * Quotes the amounts of accepting a custom offer, the seller is the user accepting it.
+   *
+   * @param offer The custom offer, as returned by the offers of an NFT or of a user
+   * @returns {TradeQuote} The amounts of the trade, the price covers all the tokens of the offer
+   */
+  public async quoteCustomOfferAcceptance(
+    offer: OfferBody
+  ): Promise<TradeQuote> {
+    return this.toTradeQuote(
+      offer.paymentToken,
+      offer.paymentTokenNonce,
+      new BigNumber(offer.price),
+      offer.quantity,
+      await this.getMarketplaceFees(),
+      toRoyaltiesBps(offer.nftInfo.royalties)
+    );
+  }
+
+  /**
+   * Finds the XO global offers an NFT can be sold to right now, best first.
+   * The offers requiring attributes are matched against the metadata of the NFT and the offers the contract reports
+   * as inactive, e.g. a legacy offer whose deposit no longer covers its price, are dropped.
+   * The offers are ranked by the USD value received by the seller after fees, the offers of tokens without a USD price
+   * use the USD value of the offer returned by the API.
+   * The offers with required attributes need a signature of the marketplace to be accepted, they are reported apart.
+   *
+   * @param nft The NFT to sell, with its metadata and sale info
+   * @param top The maximum number of offers returned in each list
+   * @returns {GlobalOfferMatches} The offers ready to be accepted with their arguments, and the ones requiring a signature
+   */
+  public async findBestGlobalOffers(
+    nft: NftData,
+    top = 5
+  ): Promise<GlobalOfferMatches> {
+    const listed = nft.saleInfo && toMarket(nft.saleInfo.marketplace);
+    if (listed && listed !== 'XO') {
+      throw new XOXNOValidationError(
+        `${nft.identifier} is listed on ${listed}, withdraw it to accept an offer`
+      );
+    }
+    const attributes = nft.metadata?.attributes ?? [];
+    const matching: GlobalOffers[] = [];
+    for await (const offer of new CollectionModule(
+      this.api
+    ).iterateGlobalOffers({
+      collections: [nft.collection],
+      listedOnlyOn: [Marketplace.XO],
+    })) {
+      // The traits are compared as strings, the API returns numeric traits as numbers or strings
+      const matches = (offer.attributes ?? []).every(({ trait_type, value }) =>
+        attributes.some(
+          (attribute) =>
+            String(attribute.trait_type) === String(trait_type) &&
+            String(attribute.value) === String(value)
+        )
+      );
+      if (offer.isActive && matches) {
+        matching.push(offer);
+      }
+    }
+
+    const fees = await this.getMarketplaceFees();
+    const royalties = toRoyaltiesBps(nft.royalties);
+    const quotes: GlobalOfferQuote[] = [];
+    // The contract checks the deposit of the legacy offers, the new ones are always covered
+    for (let i = 0; i < matching.length; i += GLOBAL_OFFER_QUERY_BATCH) {
+      const batch = await Promise.all(
+        matching
+          .slice(i, i + GLOBAL_OFFER_QUERY_BATCH)
+          .map(async (offer): Promise<GlobalOfferQuote | null> => {
+            const data = await this.getGlobalOfferData(offer.offerId);
+            if (!data.isActive) {
+              return null;
+            }
+            return {
+              offer,
+              quote: await this.toTradeQuote(
+                data.payment_token,
+                data.payment_nonce,
+                new BigNumber(data.price),
+                1,
+                fees,
+                royalties
+              ),
+            };
+          })
+      );
+      quotes.push(
+        ...batch.filter((quote): quote is GlobalOfferQuote => quote !== null)
+      );
+    }
+    quotes.sort(
+      (a, b) =>
+        toSellerNetUsd(b) - toSellerNetUsd(a) ||
+        (a.quote.sellerNet.token === b.quote.sellerNet.token
+          ? b.quote.sellerNet.comparedTo(a.quote.sellerNet)
+          : 0)
+    );
+
+    const requiresSignature = ({ offer }: GlobalOfferQuote) =>
+      (offer.attributes ?? []).length > 0;
+    return {
+      matches: quotes
+        .filter((quote) => !requiresSignature(quote))
+        .slice(0, top)
+        .map((quote) => ({
+          ...quote,
+          args: listed
+            ? {
+                offer_id: quote.offer.offerId,
+                auction_id_opt: nft.saleInfo?.auctionId,
+              }
+            : {
+                offer_id: quote.offer.offerId,
+                nft: {
+                  collection: nft.collection,
+                  nonce: nft.nonce,
+                  amount: 1,
+                },
+              },
+        })),
+      signatureRequired: quotes.filter(requiresSignature).slice(0, top),
+    };
+  }
+
+  /** The fees are rounded down to the smallest unit like the marketplace does, the seller gets the rest */
+  private async toTradeQuote(
+    token: string,
+    nonce: number,
+    price: BigNumber,
+    quantity: number,
+    marketplaceFeeBps: number,
+    royaltiesBps: number
+  ): Promise<TradeQuote> {
+    const [decimals, usdPrice] = await Promise.all([
+      this.tokens.getDecimals(token),
+      this.tokens.getUsdPrice(token).catch(() => undefined),
+    ]);
+    const gross = TokenAmount.fromBigInteger(token, price, decimals, nonce);
+    const marketplaceFee = gross.multipliedBy(marketplaceFeeBps / 10_000);
+    const royalties = gross.multipliedBy(royaltiesBps / 10_000);
+    const sellerNet = TokenAmount.fromBigInteger(
+      token,
+      gross.value.minus(marketplaceFee.value).minus(royalties.value),
+      decimals,
+      nonce
+    );
+    return {
+      quantity,
+      gross,
+      marketplaceFee,
+      royalties,
+      sellerNet,
+      buyerTotal: gross,
+      marketplaceFeeBps,
+      royaltiesBps,
+      usd:
+        usdPrice === undefined
+          ? undefined
+          : {
+              gross: gross.toNumber() * usdPrice,
+              marketplaceFee: marketplaceFee.toNumber() * usdPrice,
+              royalties: royalties.toNumber() * usdPrice,
+              sellerNet: sellerNet.toNumber() * usdPrice,
+              buyerTotal: gross.toNumber() * usdPrice,
+            },
+    };
+  }
+
   /** Gets the number of listings.
    * @returns {number} The number of listings.
    * */
@@ -294,30 +733,34 @@ export class SCInteraction {
   /**
    * Withdraw auctions from the smart contract.
    *
-   * @param auctionIDs The IDs of the auctions to withdraw from
+   * @param auctionIDs The IDs of the auctions to withdraw from, only one on the other marketplaces than XO
+   * @param market The marketplace of the auctions, e.g. the saleInfo.marketplace of the NFT
    * @returns {Interaction} The interaction object of the smart contract
    */
 
   public withdrawAuctions(
     auctionIDs: number[],
     senderNonce: WithSenderAndNonce,
-    market: 'XO'
+    market = 'XO'
   ): Interaction {
-    if (market === 'XO') {
-      const interaction = this.xo.methods.withdraw(auctionIDs);
+    const key = toMarket(market);
+    if (key !== 'XO' && auctionIDs.length !== 1) {
+      throw new XOXNOValidationError(
+        'Only one auction can be withdrawn at once on ' + key
+      );
+    }
+    const interaction =
+      this.getMarketContract(key).methods.withdraw(auctionIDs);
 
-      if (senderNonce.nonce) {
-        interaction.withNonce(senderNonce.nonce);
-      }
-      return interaction
-        .withChainID(this.api.chain)
-        .withSender(new Address(senderNonce.address))
-        .withGasLimit(
-          Math.min(600_000_000, 15_000_000 + auctionIDs.length * 5_000_000)
-        );
-    } else {
-      throw new Error('Market not supported');
+    if (senderNonce.nonce) {
+      interaction.withNonce(senderNonce.nonce);
     }
+    return interaction
+      .withChainID(this.api.chain)
+      .withSender(new Address(senderNonce.address))
+      .withGasLimit(
+        Math.min(600_000_000, 15_000_000 + auctionIDs.length * 5_000_000)
+      );
   }
 
   /**
@@ -396,14 +839,14 @@ export class SCInteraction {
       ? this.xo.methods.sendGlobalOffer([
           payment_token,
           payment_nonce,
-          TokenTransfer.egldFromAmount(price).toString(),
+          toPriceArgument(price),
           collection,
           attributes,
         ])
       : this.xo.methods.sendGlobalOffer([
           payment_token,
           payment_nonce,
-          TokenTransfer.egldFromAmount(price).toString(),
+          toPriceArgument(price),
           collection,
         ]);
 
@@ -440,7 +883,7 @@ export class SCInteraction {
     const interaction = this.xo.methods.sendOffer([
       payment_token,
       payment_nonce,
-      TokenTransfer.egldFromAmount(price).toString(),
+      toPriceArgument(price),
       nft.collection,
       nft.nonce,
       nft.amount ?? 1,
@@ -532,8 +975,9 @@ export class SCInteraction {
    * @param {number} auctionID - The unique identifier of the auction.
    * @returns {Interaction} The resulting interaction with the specified chainID and gas limit.
    *
-   * This function allows ending an auction by its auctionID. It takes the following parameter:
+   * This function allows ending an auction by its auctionID. It takes the following parameters:
    * - auctionID (number): The unique identifier of the auction.
+   * - market (string, optional): The marketplace of the auction (default is 'XO').
    *
    * The function calls the `endAuction` method on the smart contract with the provided auctionID.
    * Finally, it returns the resulting interaction with the specified chainID and gas limit.
@@ -544,17 +988,15 @@ export class SCInteraction {
     sender: WithSenderAndNonce,
     market = 'XO'
   ): Interaction {
-    if (market == 'XO') {
-      const interaction = this.xo.methods.endAuction([auctionID]);
+    const interaction = this.getMarketContract(
+      toMarket(market)
+    ).methods.endAuction([auctionID]);
 
-      if (sender.nonce) {
-        interaction.withNonce(sender.nonce);
-      }
-      interaction.withSender(new Address(sender.address));
-      return interaction.withChainID(this.api.chain).withGasLimit(15_000_000);
-    } else {
-      throw new Error('Market not supported');
+    if (sender.nonce !== undefined) {
+      interaction.withNonce(sender.nonce);
     }
+    interaction.withSender(new Address(sender.address));
+    return interaction.withChainID(this.api.chain).withGasLimit(15_000_000);
   }
 
   /**
@@ -564,6 +1006,7 @@ export class SCInteraction {
    * @param collection The NFT Collection
    * @param nonce The NFT nonce
    * @param payment The payment object
+   * @param market The marketplace of the auction
    * @returns {Interaction} The interaction object of the smart contract
    */
 
@@ -571,29 +1014,21 @@ export class SCInteraction {
     auctionID: number,
     collection: string,
     nonce: number,
-    payment: Payment,
-    sender: WithSenderAndNonce
+    payment: Payment | TokenAmount,
+    sender: WithSenderAndNonce,
+    market = 'XO'
   ): Interaction {
-    const interaction = this.xo.methods.bid([auctionID, collection, nonce]);
-    if (!payment.amount) {
-      throw new Error('Payment amount is required');
-    }
+    const interaction = this.getMarketContract(toMarket(market)).methods.bid([
+      auctionID,
+      collection,
+      nonce,
+    ]);
+    this.withPayment(interaction, payment);
 
     if (sender.nonce) {
       interaction.withNonce(sender.nonce);
     }
     interaction.withSender(new Address(sender.address));
-    if (payment.collection == 'EGLD' && payment.amount) {
-      interaction.withValue(TokenTransfer.egldFromAmount(payment.amount));
-    } else {
-      interaction.withSingleESDTTransfer(
-        TokenTransfer.fungibleFromAmount(
-          payment.collection,
-          payment.amount,
-          payment.decimals ?? 18
-        )
-      );
-    }
     return interaction.withChainID(this.api.chain).withGasLimit(30_000_000);
   }
 
@@ -602,39 +1037,193 @@ export class SCInteraction {
    *
    * @param auctionIDs The auction IDs
    * @param payment The payment object
+   * @param sender The sender address and optional nonce
+   * @param swap The AshSwap quote of the payment when it is paid with another token, see bulkBuyWithSwap to fetch it
    * @returns {Interaction} The interaction object of the smart contract
    */
 
   public bulkBuy(
     auctionIDs: number[],
-    payment: Payment,
-    sender: WithSenderAndNonce
+    payment: Payment | TokenAmount,
+    sender: WithSenderAndNonce,
+    swap?: SwapPayment
   ): Interaction {
+    if (swap) {
+      return this.getSwapBuy(auctionIDs, payment, swap, sender);
+    }
     const interaction = this.xo.methods.bid(auctionIDs);
 
-    if (sender.nonce) {
+    if (sender.nonce !== undefined) {
       interaction.withNonce(sender.nonce);
     }
     interaction.withSender(new Address(sender.address));
-    if (!payment.amount) {
-      throw new Error('Payment amount is required');
-    }
-    if (payment.collection == 'EGLD' && payment.amount) {
-      interaction.withValue(TokenTransfer.egldFromAmount(payment.amount));
-    } else {
-      interaction.withSingleESDTTransfer(
-        TokenTransfer.fungibleFromAmount(
+    this.withPayment(interaction, payment);
+    return interaction
+      .withChainID(this.api.chain)
+      .withGasLimit(
+        Math.min(
+          MAX_GAS_LIMIT,
+          BULK_BUY_BASE_GAS + auctionIDs.length * BULK_BUY_GAS_PER_NFT
+        )
+      );
+  }
+
+  /**
+   * Bulk buy auctions paying with another token than their payment token, swapped through AshSwap by the marketplace.
+   * Fetches the AshSwap quote of the price and builds the bulkBuy swap payment.
+   *
+   * @param auctionIDs The auction IDs, all listed in the same payment token
+   * @param payment The total price of the auctions, in their payment token
+   * @param swapToken The token paid, e.g. USDC to buy EGLD listings
+   * @param sender The sender address and optional nonce
+   * @param slippage The maximum increase of the quoted swap amount, 0.01 allows 1%
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public async bulkBuyWithSwap(
+    auctionIDs: number[],
+    payment: Payment | TokenAmount,
+    swapToken: string,
+    sender: WithSenderAndNonce,
+    slippage = 0.01
+  ): Promise<Interaction> {
+    const price = TokenAmount.isTokenAmount(payment)
+      ? payment
+      : payment.amount &&
+        TokenAmount.fromAmount(
           payment.collection,
           payment.amount,
-          payment.decimals ?? 18
-        )
+          payment.decimals ??
+            (await this.tokens.getDecimals(payment.collection))
+        );
+    if (!price || price.value.isZero()) {
+      throw new XOXNOValidationError('Payment amount is required');
+    }
+    this.checkSwapAndBuy();
+    const quote = await new CommonModule(this.api).getAshSwapAmount({
+      originalToken: price.token,
+      originalTokenValue: price.toBigInteger(),
+      paymentToken: swapToken,
+    });
+    return this.bulkBuy(auctionIDs, price, sender, { quote, slippage });
+  }
+
+  /**
+   * Sweeps the floor of a collection, buying the cheapest fixed price XOXNO listings matching the constraints.
+   * The listings are bought with bulkBuy, split per payment token and in batches fitting the gas limit.
+   *
+   * @param args The collection, the budget and/or count and the optional trait, rank and payment token constraints
+   * @param sender The sender address and the nonce of the first transaction, incremented for the next ones
+   * @returns {Interaction[]} One interaction per batch, to be sent in order, empty when no listing is eligible
+   */
+  public async sweep(
+    {
+      collection,
+      budget,
+      count,
+      attributes,
+      maxRank,
+      paymentToken,
+      batchSize,
+    }: SweepArgs,
+    sender: WithSenderAndNonce
+  ): Promise<Interaction[]> {
+    if (!budget && !count) {
+      throw new XOXNOValidationError('Either a budget or a count is required');
+    }
+    if (
+      TokenAmount.isTokenAmount(budget) &&
+      paymentToken &&
+      paymentToken !== budget.token
+    ) {
+      throw new XOXNOValidationError(
+        `The budget is in ${budget.token}, not in the payment token ${paymentToken}`
       );
     }
-    return interaction
-      .withChainID(this.api.chain)
-      .withGasLimit(
-        Math.min(600_000_000, 20_000_000 + auctionIDs.length * 5_000_000)
+    // The budget is compared in the smallest unit of the token, like the prices paid by bulkBuy
+    const token = TokenAmount.isTokenAmount(budget)
+      ? budget.token
+      : paymentToken ?? (budget ? 'EGLD' : undefined);
+    const limit =
+      budget && token
+        ? TokenAmount.isTokenAmount(budget)
+          ? budget.value
+          : TokenAmount.fromAmount(
+              token,
+              budget,
+              await this.tokens.getDecimals(token)
+            ).value
+        : undefined;
+    const listings: SaleInfo[] = [];
+    let spent = new BigNumber(0);
+    for await (const { saleInfo } of new CollectionModule(this.api).iterateNFTs(
+      {
+        collections: [collection],
+        auctionType: AuctionTypes.FixedPrice,
+        onlyOnSale: true,
+        activeAuctions: true,
+        listedOnlyOn: [Marketplace.XO],
+        listedInToken: token ? [token] : undefined,
+        attributes,
+        rankRange: maxRank ? { min: 1, max: maxRank } : undefined,
+        orderBy: [SearchOrderBy.PriceLowToHigh],
+      }
+    )) {
+      if (count && listings.length >= count) {
+        break;
+      }
+      if (!saleInfo) {
+        continue;
+      }
+      // The listings are sorted by price, the next ones are over budget too
+      if (limit && spent.plus(saleInfo.minBid).isGreaterThan(limit)) {
+        break;
+      }
+      spent = spent.plus(saleInfo.minBid);
+      listings.push(saleInfo);
+    }
+
+    const maxBatch = Math.floor(
+      (MAX_GAS_LIMIT - BULK_BUY_BASE_GAS) / BULK_BUY_GAS_PER_NFT
+    );
+    const size = Math.max(1, Math.min(batchSize ?? maxBatch, maxBatch));
+    const byToken = new Map<string, SaleInfo[]>();
+    listings.forEach((listing) => {
+      const token = `${listing.paymentToken}-${listing.paymentTokenNonce}`;
+      byToken.set(token, [...(byToken.get(token) ?? []), listing]);
+    });
+    const batches: SaleInfo[][] = [];
+    byToken.forEach((tokenListings) => {
+      for (let i = 0; i < tokenListings.length; i += size) {
+        batches.push(tokenListings.slice(i, i + size));
+      }
+    });
+
+    const decimals = new Map<string, number>();
+    for (const { paymentToken: token } of batches.map(([first]) => first)) {
+      if (!decimals.has(token)) {
+        decimals.set(token, await this.tokens.getDecimals(token));
+      }
+    }
+    return batches.map((batch, index) => {
+      const { paymentToken: token, paymentTokenNonce } = batch[0];
+      const total = batch.reduce(
+        (sum, listing) => sum.plus(listing.minBid),
+        new BigNumber(0)
       );
+      return this.bulkBuy(
+        batch.map((listing) => listing.auctionId),
+        TokenAmount.fromBigInteger(
+          token,
+          total,
+          decimals.get(token),
+          paymentTokenNonce
+        ),
+        {
+          address: sender.address,
+          nonce: sender.nonce === undefined ? undefined : sender.nonce + index,
+        }
+      );
+    });
   }
 
   /**
@@ -647,9 +1236,13 @@ export class SCInteraction {
    * @param {number} [options.nonce] - The nonce of the auctioned token (optional).
    * @param {number} [options.quantity=1] - The quantity of tokens to buy (default is 1).
    * @param {string} [options.token='EGLD'] - The payment token (default is 'EGLD').
-   * @param {number} [options.paymentAmount] - The payment amount for the auction (optional).
+   * @param {number | TokenAmount} [options.paymentAmount] - The payment amount for the auction, a TokenAmount also sets the token and decimals (optional).
    * @param {boolean} [options.withCheck=true] - Whether to check the auction information (default is true).
    * @param {boolean} [options.isBigUintPayment=false] - Whether the payment amount is a big integer (default is false).
+   * @param {number} [options.decimals] - The decimals of the payment token (default is the decimals known by the TokenRegistry).
+   * @param {string} [options.market='XO'] - The marketplace of the auction (default is 'XO').
+   * @param {string} [options.swapToken] - The token paid when it differs from the payment token of the auction, swapped through AshSwap (optional).
+   * @param {number} [options.slippage=0.01] - The maximum increase of the quoted swap amount (default is 1%).
    * @returns {Promise<Interaction>} The resulting interaction with the specified chainID and gas limit.
    *
    * This function allows a user to buy an auction by its auctionID. It takes an object with the following properties:
@@ -661,6 +1254,9 @@ export class SCInteraction {
    * - paymentAmount (number, optional): The payment amount for the auction.
    * - withCheck (boolean, optional): Whether to check the auction information (default is true).
    * - isBigUintPayment (boolean, optional): Whether the payment amount is a big integer (default is false).
+   * - market (string, optional): The marketplace of the auction, the other marketplaces than XO require the collection, nonce and payment amount.
+   * - swapToken (string, optional): The token paid when it differs from the payment token of the auction, only on XO and for a single token.
+   * - slippage (number, optional): The maximum increase of the quoted swap amount (default is 0.01).
    *
    * The function first checks if the auction exists and if its type is NFT or SftOnePerPayment. If not, an error is thrown.
    * Then, it calculates the payment amount and calls the `buy` method on the smart contract with the provided parameters.
@@ -678,29 +1274,48 @@ export class SCInteraction {
     address,
     nonce: senderNonce,
     isBid = false,
-    decimals = 18,
+    decimals,
     market = 'XO',
+    swapToken,
+    slippage = 0.01,
   }: {
     auctionID: number;
     collection?: string;
     nonce?: number;
     quantity?: number;
     token?: string;
-    paymentAmount?: number;
+    paymentAmount?: number | TokenAmount;
     withCheck?: boolean;
     isBigUintPayment?: boolean;
     isBid?: boolean;
     market?: string;
     decimals?: number;
+    swapToken?: string;
+    slippage?: number;
   } & WithSenderAndNonce): Promise<Interaction> {
-    if (market !== 'XO') {
-      throw new Error('Market not supported');
+    const key = toMarket(market);
+    // An exact amount carries its token and decimals
+    if (TokenAmount.isTokenAmount(paymentAmount)) {
+      token = paymentAmount.token;
+      decimals = paymentAmount.decimals;
+      isBigUintPayment = true;
     }
+    const requestedAmount = TokenAmount.isTokenAmount(paymentAmount)
+      ? paymentAmount.value
+      : paymentAmount;
     if (!auctionID) {
-      throw new Error('AuctionID not provided');
+      throw new XOXNOValidationError('AuctionID not provided');
+    }
+    if (key !== 'XO' && (!paymentAmount || !collection || !nonce)) {
+      throw new XOXNOValidationError(
+        'The collection, nonce and payment amount are required on ' + key
+      );
     }
     let auction: Auction | null = null;
-    if (!paymentAmount || !token || !collection || !nonce || withCheck) {
+    if (
+      key === 'XO' &&
+      (!paymentAmount || !token || !collection || !nonce || withCheck)
+    ) {
       auction = await this.getAuctionInfo(auctionID);
       if (auction === null) {
         throw new Error('Auction not found');
@@ -715,13 +1330,32 @@ export class SCInteraction {
     const paymentToken = auction?.payment_token_type ?? token;
     const bigNumber = auction ? true : isBigUintPayment;
     let amount = isBid
-      ? auction?.max_bid ?? paymentAmount
-      : auction?.min_bid ?? paymentAmount;
+      ? auction?.max_bid ?? requestedAmount
+      : auction?.min_bid ?? requestedAmount;
     if (!amount) {
-      throw new Error('Payment amount not provided');
+      throw new XOXNOValidationError('Payment amount not provided');
     }
 
-    const interaction = this.xo.methods.buy([
+    if (swapToken && swapToken !== paymentToken) {
+      if (key !== 'XO' || quantity !== 1 || isBid) {
+        throw new XOXNOValidationError(
+          'Swap payments only buy a single token of a XO listing'
+        );
+      }
+      const tokenDecimals =
+        decimals ?? (await this.tokens.getDecimals(paymentToken));
+      return this.bulkBuyWithSwap(
+        [auctionID],
+        bigNumber
+          ? TokenAmount.fromBigInteger(paymentToken, amount, tokenDecimals)
+          : TokenAmount.fromAmount(paymentToken, amount, tokenDecimals),
+        swapToken,
+        { address, nonce: senderNonce },
+        slippage
+      );
+    }
+
+    const interaction = this.getMarketContract(key).methods.buy([
       auctionID,
       auction?.auctioned_token_type ?? collection,
       auction?.auctioned_token_nonce ?? nonce,
@@ -742,6 +1376,14 @@ export class SCInteraction {
               new BigNumber(amount).multipliedBy(quantity)
             )
       );
+    } else if (!bigNumber && key !== 'XO') {
+      interaction.withSingleESDTTransfer(
+        TokenTransfer.fungibleFromAmount(
+          paymentToken,
+          new BigNumber(amount).multipliedBy(quantity),
+          decimals ?? (await this.tokens.getDecimals(paymentToken))
+        )
+      );
     } else {
       if (!bigNumber) {
         auction = await this.getAuctionInfo(auctionID);
@@ -751,13 +1393,69 @@ export class SCInteraction {
         amount = isBid ? auction.max_bid : auction.min_bid;
       }
       interaction.withSingleESDTTransfer(
-        TokenTransfer.fungibleFromBigInteger(paymentToken, amount, decimals)
+        TokenTransfer.fungibleFromBigInteger(
+          paymentToken,
+          amount,
+          decimals ?? this.tokens.getCachedDecimals(paymentToken)
+        )
       );
     }
 
     return interaction.withChainID(this.api.chain).withGasLimit(20_000_000);
   }
 
+  /**
+   * Buys a listing returned by the NFT search on the marketplace it is listed on, at its listed price.
+   *
+   * @param nft The NFT with its sale info, as returned by CollectionModule.getNFTs or the NFT getters
+   * @param sender The sender address and optional nonce
+   * @param quantity The quantity to buy from an SFT listing
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public buyListing(
+    {
+      collection,
+      nonce,
+      saleInfo,
+    }: Pick<NftData, 'collection' | 'nonce' | 'saleInfo'>,
+    sender: WithSenderAndNonce,
+    quantity = 1
+  ): Interaction {
+    if (!saleInfo) {
+      throw new XOXNOValidationError('The NFT is not listed');
+    }
+    if (quantity < 1 || quantity > saleInfo.quantity) {
+      throw new XOXNOValidationError(
+        `Quantity must be between 1 and ${saleInfo.quantity}`
+      );
+    }
+    const interaction = this.getMarketContract(
+      toMarket(saleInfo.marketplace)
+    ).methods.buy([saleInfo.auctionId, collection, nonce, quantity]);
+    const amount = new BigNumber(saleInfo.minBid).multipliedBy(quantity);
+    if (saleInfo.paymentToken === 'EGLD') {
+      interaction.withValue(TokenTransfer.egldFromBigInteger(amount));
+    } else if (saleInfo.paymentTokenNonce) {
+      interaction.withSingleESDTNFTTransfer(
+        TokenTransfer.metaEsdtFromBigInteger(
+          saleInfo.paymentToken,
+          saleInfo.paymentTokenNonce,
+          amount
+        )
+      );
+    } else {
+      interaction.withSingleESDTTransfer(
+        TokenTransfer.fungibleFromBigInteger(saleInfo.paymentToken, amount)
+      );
+    }
+
+    if (sender.nonce !== undefined) {
+      interaction.withNonce(sender.nonce);
+    }
+    interaction.withSender(new Address(sender.address));
+    return interaction.withChainID(this.api.chain).withGasLimit(20_000_000);
+  }
+
   /**
    * @docutype
    * @public
@@ -835,8 +1533,15 @@ export class SCInteraction {
     ]);
     const structs: Struct[] = [];
     const tokens: any = [];
-    listings.forEach((listing: NewListingArgs) => {
-      const decimals = listing.accepted_payment_token_decimals ?? 18;
+    const listingDecimals = await Promise.all(
+      listings.map(
+        (listing) =>
+          listing.accepted_payment_token_decimals ??
+          this.tokens.getDecimals(listing.accepted_payment_token ?? 'EGLD')
+      )
+    );
+    listings.forEach((listing: NewListingArgs, index) => {
+      const decimals = listingDecimals[index];
       const minBID = new BigNumber(listing.min_bid).shiftedBy(decimals);
       const maxBID = new BigNumber(listing.max_bid ?? 0).shiftedBy(decimals);
 
@@ -894,3 +1599,71 @@ export class SCInteraction {
       );
   }
 }
+
+const MARKETS: Record<string, Market> = {
+  XO: 'XO',
+  FM: 'FM',
+  DR: 'DR',
+  KG: 'KG',
+  [Marketplace.XO]: 'XO',
+  [Marketplace.FM]: 'FM',
+  [Marketplace.DR]: 'DR',
+  [Marketplace.KG]: 'KG',
+};
+
+/** Accepts both the short market keys and the Marketplace values returned by the API */
+const toMarket = (market: string): Market => {
+  const key = MARKETS[market];
+  if (!key) {
+    throw new XOXNOValidationError('Market not supported: ' + market);
+  }
+  return key;
+};
+
+/**
+ * The price and quantity bought from a listing, the price of a SftAll auction is the one of its whole lot
+ * while the other listings are priced per token.
+ * The auction type is the AuctionType of the ABI or its name, as returned by getAuctionInfo and the API.
+ */
+const toListingPrice = (
+  auctionType: AuctionType | string,
+  price: BigNumber,
+  listed: number,
+  quantity: number
+): { price: BigNumber; quantity: number } => {
+  if (quantity < 1 || quantity > listed) {
+    throw new XOXNOValidationError(
+      `The quantity must be between 1 and the ${listed} listed tokens`
+    );
+  }
+  if (
+    auctionType === AuctionType.SftAll ||
+    auctionType === AuctionType[AuctionType.SftAll]
+  ) {
+    return { price, quantity: listed };
+  }
+  return { price: price.multipliedBy(quantity), quantity };
+};
+
+/** The USD value received by the seller, scaled from the USD value of the offer when its token has no USD price */
+const toSellerNetUsd = ({ offer, quote }: GlobalOfferQuote): number => {
+  if (quote.usd) {
+    return quote.usd.sellerNet;
+  }
+  if (quote.gross.value.isZero()) {
+    return 0;
+  }
+  return new BigNumber(Number(offer.usdValue) || 0)
+    .multipliedBy(quote.sellerNet.value)
+    .dividedBy(quote.gross.value)
+    .toNumber();
+};
+
+/** The API returns the royalties of the NFTs in percent */
+const toRoyaltiesBps = (royalties = 0): number => Math.round(royalties * 100);
+
+/** Numbers keep the EGLD denomination of the previous versions, TokenAmount prices use the decimals of their token */
+const toPriceArgument = (price: number | TokenAmount): string =>
+  TokenAmount.isTokenAmount(price)
+    ? price.toBigInteger()
+    : TokenTransfer.egldFromAmount(price).toString();
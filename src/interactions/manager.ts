@@ -0,0 +1,217 @@
+import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
+import type { SmartContract } from '@multiversx/sdk-core/out/smartcontracts/smartContract';
+import { Address } from '@multiversx/sdk-core/out/address';
+import { TokenTransfer } from '@multiversx/sdk-core/out/tokens';
+import { XOXNOClient } from '../utils/api';
+import { ContractQueryRunner } from '../utils/scCalls';
+import { SmartContractAbis } from '../utils/SmartContractAbis';
+import { getSmartContract } from '../utils/SmartContractService';
+import { XOXNOValidationError } from '../utils/errors';
+import {
+  IssueCollectionArgs,
+  ManagerCreatorInfo,
+  Shareholder,
+  WithSenderAndNonce,
+} from '../types/interactions';
+
+/** The EGLD cost of issuing an ESDT collection, paid to the protocol */
+const ISSUE_COST = 0.05;
+
+/**
+ * ManagerInteraction builds the creator administration interactions of the manager smart contract.
+ * Reading the creator profile from the API is done through UserModule.getUserCreatorInfo.
+ *
+ * @example
+ * const manager = await ManagerInteraction.init();
+ * const interaction = manager.registerCreator('mytag', { address });
+ */
+export class ManagerInteraction {
+  private manager: SmartContract;
+  private call: ContractQueryRunner;
+  private api: XOXNOClient;
+  private constructor(managerAbiXOXNO: SmartContract, api: XOXNOClient) {
+    this.manager = managerAbiXOXNO;
+    this.call = new ContractQueryRunner(api);
+    this.api = api;
+  }
+
+  static async init(api: XOXNOClient = XOXNOClient.init()) {
+    const managerAbiXOXNO = await SmartContractAbis.getManager(api);
+    const manager_abi = getSmartContract(
+      managerAbiXOXNO,
+      api.config.Manager_SC
+    );
+
+    return new ManagerInteraction(manager_abi, api);
+  }
+
+  private async getResult(interaction: Interaction) {
+    return await this.call.runQuery(this.manager, interaction);
+  }
+
+  private withSender(
+    interaction: Interaction,
+    sender: WithSenderAndNonce,
+    gasLimit: number
+  ): Interaction {
+    if (sender.nonce) {
+      interaction.withNonce(sender.nonce);
+    }
+    return interaction
+      .withSender(new Address(sender.address))
+      .withChainID(this.api.chain)
+      .withGasLimit(gasLimit);
+  }
+
+  /**
+   * Gets the creator tag and the minters deployed by an address.
+   * @param address The bech32 address of the creator.
+   * @returns {ManagerCreatorInfo} The on-chain creator state.
+   */
+  public getCreatorInfo = async (
+    address: string
+  ): Promise<ManagerCreatorInfo> => {
+    const [tag, minters] = await Promise.all([
+      this.getResult(this.manager.methods.getCreatorTag([address])),
+      this.getResult(this.manager.methods.getCreatorMinters([address])),
+    ]);
+    const creatorTag = tag.firstValue?.valueOf()?.toString();
+    return {
+      address,
+      tag: creatorTag || undefined,
+      minters: (minters.firstValue?.valueOf() ?? []).map((minter: any) =>
+        minter.toString()
+      ),
+    };
+  };
+
+  /**
+   * Checks whether a creator tag is already taken.
+   * @param tag The creator tag.
+   * @returns {boolean} True if the tag is registered.
+   */
+  public isTagRegistered = async (tag: string): Promise<boolean> => {
+    const result = await this.getResult(
+      this.manager.methods.isTagRegistered([tag])
+    );
+    return Boolean(result.firstValue?.valueOf());
+  };
+
+  /**
+   * Registers the sender as a creator under the given tag.
+   * @param tag The creator tag, lowercase alphanumeric.
+   * @param sender The sender address and optional nonce.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public registerCreator(tag: string, sender: WithSenderAndNonce): Interaction {
+    if (!/^[a-z0-9]{3,25}$/.test(tag)) {
+      throw new XOXNOValidationError('Invalid creator tag: ' + tag);
+    }
+    return this.withSender(
+      this.manager.methods.registerCreator([tag]),
+      sender,
+      15_000_000
+    );
+  }
+
+  /**
+   * Deploys a new minter contract owned by the creator.
+   * @param sender The sender address and optional nonce, has to be a registered creator.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public deployMinter(sender: WithSenderAndNonce): Interaction {
+    return this.withSender(
+      this.manager.methods.deployMinter(),
+      sender,
+      150_000_000
+    );
+  }
+
+  /**
+   * Issues a new collection for the creator, the issue cost of 0.05 EGLD is attached.
+   * @param args The tag, name, ticker and royalties of the collection.
+   * @param sender The sender address and optional nonce, has to be a registered creator.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public issueCollection(
+    { tag, name, ticker, royalties, isSFT = false }: IssueCollectionArgs,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!/^[a-zA-Z0-9]{3,50}$/.test(name)) {
+      throw new XOXNOValidationError('Invalid collection name: ' + name);
+    }
+    if (!/^[A-Z0-9]{3,10}$/.test(ticker)) {
+      throw new XOXNOValidationError('Invalid collection ticker: ' + ticker);
+    }
+    const interaction = this.manager.methods.issueCollection([
+      tag,
+      name,
+      ticker,
+      toBasisPoints(royalties, 'Royalties'),
+      isSFT,
+    ]);
+    interaction.withValue(TokenTransfer.egldFromAmount(ISSUE_COST));
+    return this.withSender(interaction, sender, 100_000_000);
+  }
+
+  /**
+   * Changes the royalties applied to the NFTs minted from now on.
+   * @param tag The creator tag.
+   * @param collection The collection ticker.
+   * @param royalties The royalties in percent, e.g. 7.5
+   * @param sender The sender address and optional nonce, has to be the creator.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public setRoyalties(
+    tag: string,
+    collection: string,
+    royalties: number,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.manager.methods.setRoyalties([
+        tag,
+        collection,
+        toBasisPoints(royalties, 'Royalties'),
+      ]),
+      sender,
+      15_000_000
+    );
+  }
+
+  /**
+   * Replaces the shareholders splitting the mint revenue of a collection.
+   * @param tag The creator tag.
+   * @param collection The collection ticker.
+   * @param shareholders The shareholders, their shares have to add up to 100.
+   * @param sender The sender address and optional nonce, has to be the creator.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public setShareholders(
+    tag: string,
+    collection: string,
+    shareholders: Shareholder[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    const shares = shareholders.map(({ address, share }) => [
+      address,
+      toBasisPoints(share, 'Share'),
+    ]);
+    const total = shares.reduce((sum, [, share]) => sum + Number(share), 0);
+    if (total !== 10_000) {
+      throw new XOXNOValidationError('Shares must add up to 100');
+    }
+    return this.withSender(
+      this.manager.methods.setShareholders([tag, collection, ...shares]),
+      sender,
+      Math.min(600_000_000, 15_000_000 + shareholders.length * 1_000_000)
+    );
+  }
+}
+
+const toBasisPoints = (percent: number, name: string): number => {
+  if (percent < 0 || percent > 100) {
+    throw new XOXNOValidationError(`${name} must be between 0 and 100`);
+  }
+  return Math.round(percent * 100);
+};
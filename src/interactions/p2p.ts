@@ -0,0 +1,231 @@
+import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
+import type { SmartContract } from '@multiversx/sdk-core/out/smartcontracts/smartContract';
+import { Address } from '@multiversx/sdk-core/out/address';
+import { XOXNOClient } from '../utils/api';
+import { ContractQueryRunner } from '../utils/scCalls';
+import { SmartContractAbis } from '../utils/SmartContractAbis';
+import { getSmartContract } from '../utils/SmartContractService';
+import { XOXNOValidationError } from '../utils/errors';
+import { toTokenTransfer } from '../utils/helpers';
+import type { TokenAmount } from '../utils/tokenAmount';
+import { TokenRegistry } from '../utils/tokenRegistry';
+import {
+  P2POffer,
+  P2POfferArgs,
+  P2PTokenAmount,
+  Payment,
+  WithSenderAndNonce,
+} from '../types/interactions';
+
+/**
+ * P2PInteraction builds the interactions and runs the view queries of the peer-to-peer swap smart contract.
+ * Both sides of an offer can mix NFTs, SFTs, fungible tokens and EGLD.
+ *
+ * @example
+ * const p2p = await P2PInteraction.init();
+ * const interaction = p2p.createOffer(
+ *   {
+ *     offered: [{ collection: 'EAPES-8f3c1f', nonce: 1, amount: 1 }],
+ *     wanted: [{ collection: 'EGLD', nonce: 0, amount: 10 }],
+ *   },
+ *   { address }
+ * );
+ */
+export class P2PInteraction {
+  private p2p: SmartContract;
+  private call: ContractQueryRunner;
+  private api: XOXNOClient;
+  private tokens: TokenRegistry;
+  private constructor(p2pAbiXOXNO: SmartContract, api: XOXNOClient) {
+    this.p2p = p2pAbiXOXNO;
+    this.call = new ContractQueryRunner(api);
+    this.api = api;
+    this.tokens = TokenRegistry.for(api);
+  }
+
+  static async init(api: XOXNOClient = XOXNOClient.init()) {
+    // The builders read the decimals of the payment tokens synchronously
+    const [p2pAbiXOXNO] = await Promise.all([
+      SmartContractAbis.getP2P(api),
+      TokenRegistry.for(api)
+        .load()
+        .catch(() => undefined),
+    ]);
+    const p2p_abi = getSmartContract(p2pAbiXOXNO, api.config.P2P_SC);
+
+    return new P2PInteraction(p2p_abi, api);
+  }
+
+  private async getResult(interaction: Interaction) {
+    return await this.call.runQuery(this.p2p, interaction);
+  }
+
+  private withSender(
+    interaction: Interaction,
+    sender: WithSenderAndNonce,
+    gasLimit: number
+  ): Interaction {
+    if (sender.nonce) {
+      interaction.withNonce(sender.nonce);
+    }
+    return interaction
+      .withSender(new Address(sender.address))
+      .withChainID(this.api.chain)
+      .withGasLimit(gasLimit);
+  }
+
+  private withPayments(
+    interaction: Interaction,
+    payments: (Payment | TokenAmount)[]
+  ) {
+    const transfer =
+      payments.length === 1 && toTokenTransfer(payments[0], false, this.tokens);
+    if (transfer && transfer.isEgld()) {
+      interaction.withValue(transfer);
+    } else if (transfer && !transfer.nonce) {
+      interaction.withSingleESDTTransfer(transfer);
+    } else if (transfer) {
+      interaction.withSingleESDTNFTTransfer(transfer);
+    } else {
+      interaction.withMultiESDTNFTTransfer(
+        payments.map((payment) => toTokenTransfer(payment, true, this.tokens))
+      );
+    }
+    return interaction;
+  }
+
+  /**
+   * Gets the IDs of the offers created by a user.
+   * @param address The bech32 address of the offer owner.
+   * @returns {number[]} The offer IDs.
+   */
+  public getUserOfferIDs = async (address: string): Promise<number[]> => {
+    const result = await this.getResult(
+      this.p2p.methods.getUserOffers([address])
+    );
+    return result.firstValue?.valueOf().map((id: string) => parseInt(id));
+  };
+
+  /**
+   * Gets the IDs of the private offers addressed to a user.
+   * @param address The bech32 address of the counterparty.
+   * @returns {number[]} The offer IDs.
+   */
+  public getReceivedOfferIDs = async (address: string): Promise<number[]> => {
+    const result = await this.getResult(
+      this.p2p.methods.getReceivedOffers([address])
+    );
+    return result.firstValue?.valueOf().map((id: string) => parseInt(id));
+  };
+
+  /**
+   * Gets an offer by its ID.
+   * @param offerId The ID of the offer.
+   * @returns {P2POffer | null} The offer, null when it was accepted, cancelled or never existed.
+   */
+  public getOffer = async (offerId: number): Promise<P2POffer | null> => {
+    const result = await this.getResult(this.p2p.methods.getOffer([offerId]));
+    const body = result.firstValue?.valueOf();
+    if (!body) {
+      return null;
+    }
+    const receiver = body.receiver?.valueOf();
+    return {
+      offer_id: parseInt(body.offer_id),
+      owner: body.owner.toString(),
+      receiver: receiver ? receiver.toString() : undefined,
+      offered: body.offered.map(parseTokenAmount),
+      wanted: body.wanted.map(parseTokenAmount),
+      deadline: parseInt(body.deadline),
+      timestamp: parseInt(body.timestamp),
+    };
+  };
+
+  /**
+   * Creates an offer, the offered tokens are escrowed by the smart contract until it is accepted or cancelled.
+   * @param args The offered and wanted tokens, the optional counterparty and deadline.
+   * @param sender The sender address and optional nonce.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public createOffer(
+    { offered, wanted, receiver, deadline = 0 }: P2POfferArgs,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!offered.length || !wanted.length) {
+      throw new XOXNOValidationError(
+        'Both the offered and the wanted tokens are required'
+      );
+    }
+    const interaction = this.p2p.methods.createOffer([
+      receiver ?? null,
+      deadline,
+      ...wanted.map((payment) => {
+        const transfer = toTokenTransfer(payment, false, this.tokens);
+        return [
+          transfer.tokenIdentifier,
+          transfer.nonce,
+          transfer.amountAsBigInteger,
+        ];
+      }),
+    ]);
+    this.withPayments(interaction, offered);
+    return this.withSender(
+      interaction,
+      sender,
+      Math.min(
+        600_000_000,
+        15_000_000 + (offered.length + wanted.length) * 2_000_000
+      )
+    );
+  }
+
+  /**
+   * Accepts an offer by sending the wanted tokens, the escrowed tokens are sent back in the same transaction.
+   * @param offerId The ID of the offer.
+   * @param payments The wanted tokens of the offer, see getOffer.
+   * @param sender The sender address and optional nonce.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public acceptOffer(
+    offerId: number,
+    payments: (Payment | TokenAmount)[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!payments.length) {
+      throw new XOXNOValidationError('At least one payment is required');
+    }
+    const interaction = this.p2p.methods.acceptOffer([offerId]);
+    this.withPayments(interaction, payments);
+    return this.withSender(
+      interaction,
+      sender,
+      Math.min(600_000_000, 20_000_000 + payments.length * 3_000_000)
+    );
+  }
+
+  /**
+   * Cancels offers and returns the escrowed tokens to their owner.
+   * @param offerIds The IDs of the offers to cancel.
+   * @param sender The sender address and optional nonce, has to be the offer owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public cancelOffers(
+    offerIds: number[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!offerIds.length) {
+      throw new XOXNOValidationError('At least one offer ID is required');
+    }
+    return this.withSender(
+      this.p2p.methods.cancelOffers(offerIds),
+      sender,
+      Math.min(600_000_000, 15_000_000 + offerIds.length * 5_000_000)
+    );
+  }
+}
+
+const parseTokenAmount = (token: any): P2PTokenAmount => ({
+  collection: token.token_identifier.toString(),
+  nonce: parseInt(token.token_nonce),
+  amount: token.amount.toString(10),
+});
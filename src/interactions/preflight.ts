@@ -0,0 +1,612 @@
+import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
+import BigNumber from 'bignumber.js';
+import type { SCInteraction } from '.';
+import { NFTModule } from '../nft';
+import { UserModule } from '../users';
+import { XOXNOClient } from '../utils/api';
+import { XOXNOHttpError, XOXNOValidationError } from '../utils/errors';
+import { toTokenTransfer } from '../utils/helpers';
+import { TokenAmount } from '../utils/tokenAmount';
+import { TokenRegistry } from '../utils/tokenRegistry';
+import { Marketplace } from '../types/collection';
+import type { NftData } from '../types/nft';
+import {
+  AcceptGlobalOffer,
+  NewListingArgs,
+  NFTBody,
+  Payment,
+  PreflightIssue,
+  PreflightIssueCode,
+  SendCustomOffer,
+  SendGlobalOffer,
+  SwapPayment,
+  WithSenderAndNonce,
+} from '../types/interactions';
+
+/**
+ * PreflightValidator checks the arguments of the marketplace builders against the contract and the sender account,
+ * so the transactions that would fail on-chain are reported before the user is asked to sign them.
+ * Each check resolves to the list of issues found, an empty list means the transaction is expected to succeed.
+ * It is available as `market.validate` and mirrors the names and arguments of the builders.
+ *
+ * @example
+ * const issues = await market.validate.listNFTs(listings, { address });
+ * if (!issues.length) {
+ *   const interaction = await market.listNFTs(listings, { address });
+ * }
+ */
+export class PreflightValidator {
+  private readonly market: SCInteraction;
+  private readonly users: UserModule;
+  private readonly nfts: NFTModule;
+  private readonly tokens: TokenRegistry;
+
+  constructor(market: SCInteraction, api: XOXNOClient = XOXNOClient.init()) {
+    this.market = market;
+    this.users = new UserModule(api);
+    this.nfts = new NFTModule(api);
+    this.tokens = TokenRegistry.for(api);
+  }
+
+  /**
+   * Checks new listings: accepted payment token, deadline, price range and ownership of the NFTs.
+   * @param listings - The listings passed to `listNFTs`.
+   * @param sender - The seller.
+   */
+  public listNFTs = async (
+    listings: NewListingArgs[],
+    sender: WithSenderAndNonce
+  ): Promise<PreflightIssue[]> => {
+    const accepted = await this.market.getAcceptedPaymentTokens();
+    const issues = await Promise.all(
+      listings.map(async (listing, index) => {
+        const path = `listings[${index}]`;
+        const token = listing.accepted_payment_token ?? 'EGLD';
+        const minBid = new BigNumber(listing.min_bid);
+        const maxBid = new BigNumber(listing.max_bid ?? 0);
+        const found: PreflightIssue[] = [
+          ...checkAccepted(accepted, token, `${path}.accepted_payment_token`),
+          ...checkDeadline(listing.deadline, `${path}.deadline`),
+          ...(await this.checkOwner(listing, sender.address, path)),
+        ];
+        if (!minBid.isGreaterThan(0)) {
+          found.push({
+            code: PreflightIssueCode.InvalidPrice,
+            message: 'The minimum price must be greater than 0',
+            path: `${path}.min_bid`,
+          });
+        } else if (maxBid.isGreaterThan(0) && maxBid.isLessThan(minBid)) {
+          found.push({
+            code: PreflightIssueCode.InvalidPrice,
+            message: `The maximum price ${maxBid.toFixed()} is lower than the minimum price ${minBid.toFixed()}`,
+            path: `${path}.max_bid`,
+          });
+        }
+        return found;
+      })
+    );
+    return issues.flat();
+  };
+
+  /**
+   * Checks a global offer: accepted payment token and deposit covering the offered price.
+   * @param offer - The arguments passed to `sendGlobalOffer`.
+   */
+  public sendGlobalOffer = async ({
+    payment_token,
+    payment_nonce,
+    price,
+    depositAmount,
+    address,
+  }: SendGlobalOffer & WithSenderAndNonce): Promise<PreflightIssue[]> => {
+    const accepted = await this.market.getAcceptedPaymentTokens();
+    return [
+      ...checkAccepted(accepted, payment_token, 'payment_token'),
+      ...(await this.checkDeposit(
+        address,
+        payment_token,
+        payment_nonce,
+        price,
+        depositAmount
+      )),
+    ];
+  };
+
+  /**
+   * Checks a custom offer: accepted payment token, deadline and deposit covering the offered price.
+   * @param offer - The arguments passed to `sendCustomOffer`.
+   */
+  public sendCustomOffer = async ({
+    payment_token,
+    payment_nonce,
+    price,
+    deadline,
+    depositAmount,
+    address,
+  }: SendCustomOffer & WithSenderAndNonce): Promise<PreflightIssue[]> => {
+    const accepted = await this.market.getAcceptedPaymentTokens();
+    return [
+      ...checkAccepted(accepted, payment_token, 'payment_token'),
+      ...checkDeadline(deadline, 'deadline'),
+      ...(await this.checkDeposit(
+        address,
+        payment_token,
+        payment_nonce,
+        price,
+        depositAmount
+      )),
+    ];
+  };
+
+  /**
+   * Checks the acceptance of a global offer: the offer exists and the sender owns the sold NFT or its listing.
+   * @param args - The arguments passed to `acceptGlobalOffer`.
+   */
+  public acceptGlobalOffer = async ({
+    offer_id,
+    auction_id_opt,
+    nft,
+    address,
+  }: AcceptGlobalOffer & WithSenderAndNonce): Promise<PreflightIssue[]> => {
+    const issues: PreflightIssue[] = [];
+    // A missing offer fails the contract query like any other error, so it is looked up in the offer ids
+    const offerIDs = await this.market.getGlobalOfferIDs();
+    if (!offerIDs.includes(offer_id)) {
+      issues.push({
+        code: PreflightIssueCode.OfferNotFound,
+        message: `Global offer ${offer_id} not found`,
+        path: 'offer_id',
+      });
+    }
+    if (nft) {
+      issues.push(...(await this.checkOwner(nft, address, 'nft')));
+    } else if (auction_id_opt) {
+      const auction = await this.market.getAuctionInfo(auction_id_opt);
+      if (!auction) {
+        issues.push({
+          code: PreflightIssueCode.AuctionNotFound,
+          message: `Auction ${auction_id_opt} not found`,
+          path: 'auction_id_opt',
+        });
+      } else if (auction.original_owner !== address) {
+        issues.push({
+          code: PreflightIssueCode.NotOwner,
+          message: `Auction ${auction_id_opt} is not listed by ${address}`,
+          path: 'auction_id_opt',
+        });
+      }
+    }
+    return issues;
+  };
+
+  /**
+   * Checks a bid on a XO auction: the auction is running, the bid is within its price range and covered by the balance of the sender.
+   * @param auctionID - The auction id.
+   * @param collection - The collection of the auctioned NFT.
+   * @param nonce - The nonce of the auctioned NFT.
+   * @param payment - The bid.
+   * @param sender - The bidder.
+   */
+  public bidOnAuctionId = async (
+    auctionID: number,
+    collection: string,
+    nonce: number,
+    payment: Payment | TokenAmount,
+    sender: WithSenderAndNonce
+  ): Promise<PreflightIssue[]> => {
+    const auction = await this.market.getAuctionInfo(auctionID);
+    if (!auction) {
+      return [
+        {
+          code: PreflightIssueCode.AuctionNotFound,
+          message: `Auction ${auctionID} not found`,
+          path: 'auctionID',
+        },
+      ];
+    }
+    const issues: PreflightIssue[] = [];
+    if (
+      auction.auctioned_token_type !== collection ||
+      auction.auctioned_token_nonce !== nonce
+    ) {
+      issues.push({
+        code: PreflightIssueCode.AuctionNotFound,
+        message: `Auction ${auctionID} does not sell ${collection} ${nonce}`,
+        path: 'auctionID',
+      });
+    }
+    if (auction.original_owner === sender.address) {
+      issues.push({
+        code: PreflightIssueCode.OwnAuction,
+        message: 'The seller cannot bid on their own auction',
+        path: 'sender.address',
+      });
+    }
+    if (auction.deadline && auction.deadline <= now()) {
+      issues.push({
+        code: PreflightIssueCode.AuctionEnded,
+        message: `Auction ${auctionID} ended`,
+        path: 'auctionID',
+      });
+    }
+    const bid = this.toTransfer(payment, 'payment', issues);
+    if (!bid) {
+      return issues;
+    }
+    if (bid.token !== auction.payment_token_type) {
+      issues.push({
+        code: PreflightIssueCode.UnacceptedPaymentToken,
+        message: `Auction ${auctionID} only accepts ${auction.payment_token_type}`,
+        path: 'payment.collection',
+      });
+      return issues;
+    }
+    const minBid = BigNumber.max(auction.min_bid, auction.current_bid || 0);
+    const maxBid = new BigNumber(auction.max_bid);
+    if (bid.value.isLessThan(minBid)) {
+      issues.push({
+        code: PreflightIssueCode.InvalidPrice,
+        message: `The bid is lower than ${minBid.toFixed()}`,
+        path: 'payment.amount',
+      });
+    } else if (maxBid.isGreaterThan(0) && bid.value.isGreaterThan(maxBid)) {
+      issues.push({
+        code: PreflightIssueCode.InvalidPrice,
+        message: `The bid is greater than the maximum price ${maxBid.toFixed()}`,
+        path: 'payment.amount',
+      });
+    }
+    issues.push(
+      ...(await this.checkBalance(
+        sender.address,
+        bid.token,
+        bid.nonce,
+        bid.value,
+        'payment.amount'
+      ))
+    );
+    return issues;
+  };
+
+  /**
+   * Checks a buy of a listing by its auction id: the XO auction is running, not listed by the buyer, and its price is covered by the balance of the buyer.
+   * @param args - The arguments passed to `buyAuctionById`.
+   */
+  public buyAuctionById = async (
+    args: Parameters<SCInteraction['buyAuctionById']>[0]
+  ): Promise<PreflightIssue[]> => {
+    const issues: PreflightIssue[] = [];
+    if (
+      !args.market ||
+      args.market === 'XO' ||
+      args.market === Marketplace.XO
+    ) {
+      const auction = await this.market.getAuctionInfo(args.auctionID);
+      if (!auction) {
+        return [
+          {
+            code: PreflightIssueCode.AuctionNotFound,
+            message: `Auction ${args.auctionID} not found`,
+            path: 'auctionID',
+          },
+        ];
+      }
+      if (auction.original_owner === args.address) {
+        issues.push({
+          code: PreflightIssueCode.OwnAuction,
+          message: 'The seller cannot buy their own listing',
+          path: 'address',
+        });
+      }
+      if (auction.deadline && auction.deadline <= now()) {
+        issues.push({
+          code: PreflightIssueCode.AuctionEnded,
+          message: `Auction ${args.auctionID} ended`,
+          path: 'auctionID',
+        });
+      }
+    }
+    const interaction = await this.build(
+      () => this.market.buyAuctionById(args),
+      'paymentAmount',
+      issues
+    );
+    if (interaction) {
+      issues.push(
+        ...(await this.checkPayment(interaction, args.address, 'paymentAmount'))
+      );
+    }
+    return issues;
+  };
+
+  /**
+   * Checks a bulk buy: the payment, or the swapped token of a swap payment, is covered by the balance of the buyer.
+   * @param auctionIDs - The auction ids.
+   * @param payment - The total price of the auctions.
+   * @param sender - The buyer.
+   * @param swap - The swap payment passed to `bulkBuy`, if any.
+   */
+  public bulkBuy = async (
+    auctionIDs: number[],
+    payment: Payment | TokenAmount,
+    sender: WithSenderAndNonce,
+    swap?: SwapPayment
+  ): Promise<PreflightIssue[]> => {
+    const issues: PreflightIssue[] = [];
+    const interaction = await this.build(
+      () => this.market.bulkBuy(auctionIDs, payment, sender, swap),
+      'payment',
+      issues
+    );
+    if (interaction) {
+      issues.push(
+        ...(await this.checkPayment(
+          interaction,
+          sender.address,
+          'payment.amount'
+        ))
+      );
+    }
+    return issues;
+  };
+
+  /**
+   * Checks a buy of a listing returned by the NFT search: the NFT is listed in the bought quantity, not by the buyer, and its price is covered by the balance of the buyer.
+   * @param nft - The NFT with its sale info.
+   * @param sender - The buyer.
+   * @param quantity - The quantity bought from an SFT listing.
+   */
+  public buyListing = async (
+    nft: Pick<NftData, 'collection' | 'nonce' | 'saleInfo'>,
+    sender: WithSenderAndNonce,
+    quantity = 1
+  ): Promise<PreflightIssue[]> => {
+    const { saleInfo } = nft;
+    if (!saleInfo) {
+      return [
+        {
+          code: PreflightIssueCode.AuctionNotFound,
+          message: `${nft.collection} ${nft.nonce} is not listed`,
+          path: 'nft.saleInfo',
+        },
+      ];
+    }
+    const issues: PreflightIssue[] = [];
+    if (saleInfo.seller === sender.address) {
+      issues.push({
+        code: PreflightIssueCode.OwnAuction,
+        message: 'The seller cannot buy their own listing',
+        path: 'sender.address',
+      });
+    }
+    const interaction = await this.build(
+      () => this.market.buyListing(nft, sender, quantity),
+      'quantity',
+      issues
+    );
+    if (interaction) {
+      issues.push(
+        ...(await this.checkPayment(
+          interaction,
+          sender.address,
+          'nft.saleInfo.minBid'
+        ))
+      );
+    }
+    return issues;
+  };
+
+  /** Builds the transaction checked, the invalid arguments rejected by the builder are reported as an invalid price */
+  private async build(
+    builder: () => Interaction | Promise<Interaction>,
+    path: string,
+    issues: PreflightIssue[]
+  ): Promise<Interaction | undefined> {
+    try {
+      return await builder();
+    } catch (error) {
+      if (!(error instanceof XOXNOValidationError)) {
+        throw error;
+      }
+      issues.push({
+        code: PreflightIssueCode.InvalidPrice,
+        message: error.message,
+        path,
+      });
+      return undefined;
+    }
+  }
+
+  /** The EGLD value and every token transferred by the transaction must be covered by the balance of the sender */
+  private async checkPayment(
+    interaction: Interaction,
+    address: string,
+    path: string
+  ): Promise<PreflightIssue[]> {
+    const value = new BigNumber(interaction.getValue().toString());
+    const payments = interaction.getTokenTransfers().map((transfer) => ({
+      // The EGLD of a multi transfer is sent as EGLD-000000
+      token:
+        transfer.tokenIdentifier === 'EGLD-000000'
+          ? 'EGLD'
+          : transfer.tokenIdentifier,
+      nonce: transfer.nonce,
+      value: new BigNumber(transfer.amountAsBigInteger),
+    }));
+    if (value.isGreaterThan(0)) {
+      payments.push({ token: 'EGLD', nonce: 0, value });
+    }
+    const issues = await Promise.all(
+      payments.map(({ token, nonce, value }) =>
+        this.checkBalance(address, token, nonce, value, path)
+      )
+    );
+    return issues.flat();
+  }
+
+  private toTransfer(
+    payment: Payment | TokenAmount,
+    path: string,
+    issues: PreflightIssue[]
+  ): { token: string; nonce: number; value: BigNumber } | undefined {
+    try {
+      const transfer = toTokenTransfer(payment, false, this.tokens);
+      return {
+        token: transfer.isEgld() ? 'EGLD' : transfer.tokenIdentifier,
+        nonce: transfer.nonce,
+        value: new BigNumber(transfer.amountAsBigInteger),
+      };
+    } catch (error) {
+      if (!(error instanceof XOXNOValidationError)) {
+        throw error;
+      }
+      issues.push({
+        code: PreflightIssueCode.InvalidPrice,
+        message: error.message,
+        path: `${path}.amount`,
+      });
+      return undefined;
+    }
+  }
+
+  /** The pool deposit of the sender plus the attached EGLD deposit must cover the offered price */
+  private async checkDeposit(
+    address: string,
+    token: string,
+    nonce: number,
+    price: number | TokenAmount,
+    depositAmount = 0
+  ): Promise<PreflightIssue[]> {
+    let value: BigNumber;
+    try {
+      value = TokenAmount.isTokenAmount(price)
+        ? price.value
+        : (await this.tokens.toTokenAmount(token, price, nonce)).value;
+    } catch (error) {
+      if (!(error instanceof XOXNOValidationError)) {
+        throw error;
+      }
+      return [
+        {
+          code: PreflightIssueCode.InvalidPrice,
+          message: error.message,
+          path: 'price',
+        },
+      ];
+    }
+    if (!value.isGreaterThan(0)) {
+      return [
+        {
+          code: PreflightIssueCode.InvalidPrice,
+          message: 'The offered price must be greater than 0',
+          path: 'price',
+        },
+      ];
+    }
+    const deposit = new BigNumber(depositAmount).shiftedBy(18);
+    const issues = deposit.isGreaterThan(0)
+      ? await this.checkBalance(address, 'EGLD', 0, deposit, 'depositAmount')
+      : [];
+    const pool = await this.market.getUserPoolBalance(address, token, nonce);
+    const available = token === 'EGLD' ? pool.value.plus(deposit) : pool.value;
+    if (available.isLessThan(value)) {
+      issues.push({
+        code: PreflightIssueCode.InsufficientBalance,
+        message: `The deposit of ${available.toFixed()} ${token} does not cover the offered price of ${value.toFixed()}`,
+        path: 'price',
+      });
+    }
+    return issues;
+  }
+
+  private async checkBalance(
+    address: string,
+    token: string,
+    nonce: number,
+    required: BigNumber,
+    path: string
+  ): Promise<PreflightIssue[]> {
+    let balance: BigNumber;
+    if (token === 'EGLD') {
+      balance = new BigNumber(
+        (await this.users.getUserAccount(address)).balance
+      );
+    } else {
+      const { tokens } = await this.users.getUserTokenInventory(address);
+      const owned = tokens.find(
+        (owned) => owned.identifier === token && (owned.nonce ?? 0) === nonce
+      );
+      balance = new BigNumber(owned?.balance ?? 0);
+    }
+    if (balance.isGreaterThanOrEqualTo(required)) {
+      return [];
+    }
+    return [
+      {
+        code: PreflightIssueCode.InsufficientBalance,
+        message: `The balance of ${balance.toFixed()} ${token} is lower than ${required.toFixed()}`,
+        path,
+      },
+    ];
+  }
+
+  /** Ownership is checked against the owner indexed by the API */
+  private async checkOwner(
+    { collection, nonce }: NFTBody,
+    address: string,
+    path: string
+  ): Promise<PreflightIssue[]> {
+    const nft = await this.nfts
+      .getNFTByCollectionAndNonce(collection, nonce)
+      .catch((error) => {
+        if (error instanceof XOXNOHttpError && error.isNotFound) {
+          return null;
+        }
+        throw error;
+      });
+    if (nft && (!nft.owner || nft.owner.address === address)) {
+      return [];
+    }
+    return [
+      {
+        code: PreflightIssueCode.NotOwner,
+        message: nft
+          ? `${nft.identifier} is not owned by ${address}`
+          : `${collection} ${nonce} not found`,
+        path,
+      },
+    ];
+  }
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const checkAccepted = (
+  accepted: string[],
+  token: string,
+  path: string
+): PreflightIssue[] =>
+  accepted.includes(token)
+    ? []
+    : [
+        {
+          code: PreflightIssueCode.UnacceptedPaymentToken,
+          message: `${token} is not accepted by the marketplace`,
+          path,
+        },
+      ];
+
+/** A deadline of 0 never expires */
+const checkDeadline = (
+  deadline: number | undefined,
+  path: string
+): PreflightIssue[] =>
+  deadline && deadline <= now()
+    ? [
+        {
+          code: PreflightIssueCode.DeadlineInPast,
+          message: `The deadline ${deadline} is in the past`,
+          path,
+        },
+      ]
+    : [];
@@ -0,0 +1,380 @@
+import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
+import type { SmartContract } from '@multiversx/sdk-core/out/smartcontracts/smartContract';
+import { Address } from '@multiversx/sdk-core/out/address';
+import { TokenTransfer } from '@multiversx/sdk-core/out/tokens';
+import { XOXNOClient } from '../utils/api';
+import { ContractQueryRunner } from '../utils/scCalls';
+import { SmartContractAbis } from '../utils/SmartContractAbis';
+import { getSmartContract } from '../utils/SmartContractService';
+import { XOXNOValidationError } from '../utils/errors';
+import { WithSenderAndNonce } from '../types/interactions';
+import {
+  CreateStakingPoolArgs,
+  PendingReward,
+  StakedNFT,
+  StakingRewardToken,
+  UserStakedNFTs,
+} from '../types/staking';
+
+/**
+ * StakingInteraction builds the interactions and runs the view queries of the NFT staking smart contract.
+ *
+ * @example
+ * const staking = await StakingInteraction.init();
+ * const interaction = staking.stake(12, nfts, { address });
+ */
+export class StakingInteraction {
+  private staking: SmartContract;
+  private call: ContractQueryRunner;
+  private api: XOXNOClient;
+  private constructor(stakingAbiXOXNO: SmartContract, api: XOXNOClient) {
+    this.staking = stakingAbiXOXNO;
+    this.call = new ContractQueryRunner(api);
+    this.api = api;
+  }
+
+  static async init(api: XOXNOClient = XOXNOClient.init()) {
+    const stakingAbiXOXNO = await SmartContractAbis.getStaking(api);
+    const staking_abi = getSmartContract(
+      stakingAbiXOXNO,
+      api.config.Staking_SC
+    );
+
+    return new StakingInteraction(staking_abi, api);
+  }
+
+  private async getResult(interaction: Interaction) {
+    return await this.call.runQuery(this.staking, interaction);
+  }
+
+  private withSender(
+    interaction: Interaction,
+    sender: WithSenderAndNonce,
+    gasLimit: number
+  ): Interaction {
+    if (sender.nonce) {
+      interaction.withNonce(sender.nonce);
+    }
+    return interaction
+      .withSender(new Address(sender.address))
+      .withChainID(this.api.chain)
+      .withGasLimit(gasLimit);
+  }
+
+  /**
+   * Gets the IDs of every pool created in the staking smart contract.
+   * @returns {number[]} The pool IDs.
+   */
+  public getPoolIds = async (): Promise<number[]> => {
+    const result = await this.getResult(this.staking.methods.getAllPoolIds());
+    return result.firstValue?.valueOf().map((id: string) => parseInt(id));
+  };
+
+  /**
+   * Gets the IDs of the pools owned by a creator.
+   * @param address The bech32 address of the pool owner.
+   * @returns {number[]} The pool IDs.
+   */
+  public getPoolsOwnedBy = async (address: string): Promise<number[]> => {
+    const result = await this.getResult(
+      this.staking.methods.getPoolsByOwner([address])
+    );
+    return result.firstValue?.valueOf().map((id: string) => parseInt(id));
+  };
+
+  /**
+   * Gets the rewards accumulated by a user in a pool and not claimed yet.
+   * @param poolId The ID of the pool.
+   * @param address The bech32 address of the user.
+   * @returns {PendingReward[]} The pending rewards, one entry per reward token.
+   */
+  public getPendingRewards = async (
+    poolId: number,
+    address: string
+  ): Promise<PendingReward[]> => {
+    const result = await this.getResult(
+      this.staking.methods.calculateRewardsForUser([address, poolId])
+    );
+    return (result.firstValue?.valueOf() ?? []).map((reward: any) => ({
+      reward_token: reward.token_identifier.toString(),
+      reward_token_nonce: parseInt(reward.token_nonce),
+      amount: reward.amount.toString(10),
+    }));
+  };
+
+  /**
+   * Gets the NFTs staked by a user in a pool, including the ones waiting for the unbound period.
+   * @param poolId The ID of the pool.
+   * @param address The bech32 address of the user.
+   * @returns {UserStakedNFTs} The staked and unstaked NFTs of the user.
+   */
+  public getUserStakedNFTs = async (
+    poolId: number,
+    address: string
+  ): Promise<UserStakedNFTs> => {
+    const [staked, unstaked] = await Promise.all([
+      this.getResult(this.staking.methods.getStakedNfts([address, poolId])),
+      this.getResult(this.staking.methods.getUnstakedNfts([address, poolId])),
+    ]);
+    return {
+      pool_id: poolId,
+      nfts: (staked.firstValue?.valueOf() ?? []).map(parseStakedNFT),
+      unstaked: (unstaked.firstValue?.valueOf() ?? []).map((nft: any) => ({
+        ...parseStakedNFT(nft),
+        unbound_epoch: parseInt(nft.unbound_epoch),
+      })),
+    };
+  };
+
+  /**
+   * Stakes NFTs in a pool.
+   * @param poolId The ID of the pool.
+   * @param nfts The NFTs to stake, all of them have to be accepted by the pool.
+   * @param sender The sender address and optional nonce.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public stake(
+    poolId: number,
+    nfts: StakedNFT[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!nfts.length) {
+      throw new XOXNOValidationError('At least one NFT is required');
+    }
+    const interaction = this.staking.methods.stake([poolId]);
+    interaction.withMultiESDTNFTTransfer(
+      nfts.map(({ collection, nonce, amount }) =>
+        TokenTransfer.semiFungible(collection, nonce, amount)
+      )
+    );
+    return this.withSender(
+      interaction,
+      sender,
+      Math.min(600_000_000, 10_000_000 + nfts.length * 2_000_000)
+    );
+  }
+
+  /**
+   * Unstakes NFTs from a pool, they can be claimed with claimUnstaked once the unbound period ends.
+   * @param poolId The ID of the pool.
+   * @param nfts The staked NFTs to unstake.
+   * @param sender The sender address and optional nonce.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public unStake(
+    poolId: number,
+    nfts: StakedNFT[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!nfts.length) {
+      throw new XOXNOValidationError('At least one NFT is required');
+    }
+    const interaction = this.staking.methods.unStake([
+      poolId,
+      ...nfts.map(({ collection, nonce, amount }) => [
+        collection,
+        nonce,
+        amount,
+      ]),
+    ]);
+    return this.withSender(
+      interaction,
+      sender,
+      Math.min(600_000_000, 10_000_000 + nfts.length * 2_000_000)
+    );
+  }
+
+  /**
+   * Claims the NFTs whose unbound period ended.
+   * @param poolId The ID of the pool.
+   * @param sender The sender address and optional nonce.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public claimUnstaked(
+    poolId: number,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.staking.methods.claimUnstaked([poolId]),
+      sender,
+      20_000_000
+    );
+  }
+
+  /**
+   * Claims the pending rewards of the given pools.
+   * @param poolIds The IDs of the pools to claim from.
+   * @param sender The sender address and optional nonce.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public claimRewards(
+    poolIds: number[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!poolIds.length) {
+      throw new XOXNOValidationError('At least one pool ID is required');
+    }
+    return this.withSender(
+      this.staking.methods.claimRewards(poolIds),
+      sender,
+      Math.min(600_000_000, 15_000_000 + poolIds.length * 5_000_000)
+    );
+  }
+
+  /**
+   * Creates a new staking pool, the pool is inactive until rewards are added.
+   * @param args The configuration of the pool.
+   * @param sender The sender address and optional nonce, has to own or manage the collections.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public createPool(
+    {
+      name,
+      collections,
+      pool_type,
+      issuing_type,
+      duration_in_epochs,
+      unbound_period = 0,
+      max_stake_per_pool = 0,
+      max_stake_per_wallet = 0,
+      whitelist_pool = false,
+    }: CreateStakingPoolArgs,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!name) {
+      throw new XOXNOValidationError('Name is required');
+    }
+    if (!collections.length) {
+      throw new XOXNOValidationError('At least one collection is required');
+    }
+    const interaction = this.staking.methods.createPool([
+      name,
+      pool_type,
+      issuing_type,
+      duration_in_epochs,
+      unbound_period,
+      max_stake_per_pool,
+      max_stake_per_wallet,
+      whitelist_pool,
+      ...collections,
+    ]);
+    return this.withSender(interaction, sender, 30_000_000);
+  }
+
+  /**
+   * Deposits reward tokens in a pool, the deposit is spread over the remaining epochs.
+   * @param poolId The ID of the pool.
+   * @param reward The reward token and the deposited amount.
+   * @param sender The sender address and optional nonce, has to be the pool owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public addRewards(
+    poolId: number,
+    { token, nonce = 0, amount, decimals = 18 }: StakingRewardToken,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (amount <= 0) {
+      throw new XOXNOValidationError('Payment amount must be greater than 0');
+    }
+    const interaction = this.staking.methods.addRewards([poolId]);
+    if (token == 'EGLD') {
+      interaction.withValue(TokenTransfer.egldFromAmount(amount));
+    } else if (nonce) {
+      interaction.withSingleESDTNFTTransfer(
+        TokenTransfer.metaEsdtFromAmount(token, nonce, amount, decimals)
+      );
+    } else {
+      interaction.withSingleESDTTransfer(
+        TokenTransfer.fungibleFromAmount(token, amount, decimals)
+      );
+    }
+    return this.withSender(interaction, sender, 20_000_000);
+  }
+
+  /**
+   * Withdraws the undistributed rewards of a pool.
+   * @param poolId The ID of the pool.
+   * @param token The reward token to withdraw.
+   * @param sender The sender address and optional nonce, has to be the pool owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public withdrawRewards(
+    poolId: number,
+    token: string,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.staking.methods.withdrawRewards([poolId, token]),
+      sender,
+      20_000_000
+    );
+  }
+
+  /**
+   * Enables or disables staking in a pool, the staked NFTs keep earning rewards.
+   * @param poolId The ID of the pool.
+   * @param enabled Whether new NFTs can be staked.
+   * @param sender The sender address and optional nonce, has to be the pool owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public setStakeEnabled(
+    poolId: number,
+    enabled: boolean,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.staking.methods.setStakeStatus([poolId, enabled]),
+      sender,
+      10_000_000
+    );
+  }
+
+  /**
+   * Changes the unbound period of a pool.
+   * @param poolId The ID of the pool.
+   * @param epochs The number of epochs the NFTs stay locked after unstaking.
+   * @param sender The sender address and optional nonce, has to be the pool owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public setUnboundPeriod(
+    poolId: number,
+    epochs: number,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.staking.methods.setUnboundPeriod([poolId, epochs]),
+      sender,
+      10_000_000
+    );
+  }
+
+  /**
+   * Adds NFT nonces to the whitelist of a whitelisted pool.
+   * @param poolId The ID of the pool.
+   * @param collection The collection of the NFTs.
+   * @param nonces The nonces allowed in the pool.
+   * @param sender The sender address and optional nonce, has to be the pool owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public addWhitelistNonces(
+    poolId: number,
+    collection: string,
+    nonces: number[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    if (!nonces.length) {
+      throw new XOXNOValidationError('At least one nonce is required');
+    }
+    return this.withSender(
+      this.staking.methods.addWhitelistNonces([poolId, collection, ...nonces]),
+      sender,
+      Math.min(600_000_000, 10_000_000 + nonces.length * 500_000)
+    );
+  }
+}
+
+const parseStakedNFT = (nft: any): StakedNFT => ({
+  collection: nft.token_identifier.toString(),
+  nonce: parseInt(nft.token_nonce),
+  amount: parseInt(nft.amount),
+});
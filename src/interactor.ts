@@ -1,4 +1,10 @@
 export * from './interactions';
+export * from './interactions/staking';
+export * from './interactions/p2p';
+export * from './interactions/manager';
 export * from './launchpad';
+export * from './transactions';
 export * from './types/interactions';
 export * from './types';
+export * from './interactions/events';
+export * from './interactions/preflight';
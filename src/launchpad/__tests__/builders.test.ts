@@ -0,0 +1,161 @@
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { LaunchpadModule } from '..';
+import { XOXNOClient } from '../../utils/api';
+import { getSmartContract } from '../../utils/SmartContractService';
+
+const minter = getSmartContract(
+  AbiRegistry.create({
+    endpoints: [
+      {
+        name: 'buy',
+        mutability: 'mutable',
+        payableInTokens: ['*'],
+        inputs: [
+          { name: 'tag', type: 'bytes' },
+          { name: 'stage', type: 'bytes' },
+          { name: 'quantity', type: 'u32' },
+        ],
+        outputs: [],
+      },
+      {
+        name: 'addWhitelist',
+        mutability: 'mutable',
+        inputs: [
+          { name: 'tag', type: 'bytes' },
+          { name: 'stage', type: 'bytes' },
+          { name: 'wallets', type: 'variadic<Address>', multi_arg: true },
+        ],
+        outputs: [],
+      },
+    ],
+  }),
+  'erd1qqqqqqqqqqqqqpgqtwtp5uz97u232zvzd973upqxwe2xnqv2ys5s3c7jx9'
+);
+
+const address =
+  'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+
+describe('LaunchpadModule.buy', () => {
+  let sc: LaunchpadModule;
+  const now = Math.floor(Date.now() / 1000);
+  const stage = {
+    tag: 'Elonverse',
+    name: 'public',
+    startTime: now - 60,
+    endTime: now + 60,
+    mintCount: 10,
+    mintLimit: 100,
+    mintEnabled: true,
+    walletLimit: 3,
+    isSoldOut: false,
+    prices: [
+      {
+        tokenIdentifier: 'EGLD',
+        tokenNonce: '0',
+        amount: '500000000000000000',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    sc = new LaunchpadModule(minter, new XOXNOClient());
+    sc.getStages = jest.fn().mockResolvedValue([stage]);
+    sc.getWalletStageBuyCount = jest.fn().mockResolvedValue(1);
+    sc.getWalletGlobalBuyCount = jest.fn().mockResolvedValue(1);
+    sc.getStageWhitelist = jest.fn().mockResolvedValue([]);
+  });
+
+  it('should attach the stage price multiplied by the quantity', async () => {
+    const interaction = await sc.buy({
+      tag: 'Elonverse',
+      stage: 'public',
+      quantity: 2,
+      address,
+    });
+    const tx = interaction.buildTransaction().toSendable();
+    expect(tx.value).toEqual('1000000000000000000');
+    expect(tx.gasLimit).toEqual(31_000_000);
+  });
+
+  it('should reject quantities above the wallet limit', async () => {
+    await expect(
+      sc.buy({ tag: 'Elonverse', stage: 'public', quantity: 3, address })
+    ).rejects.toThrow('Quantity exceeds the wallet limit of the stage');
+  });
+
+  it('should reject wallets missing from the stage whitelist', async () => {
+    sc.getStageWhitelist = jest.fn().mockResolvedValue(['erd1other']);
+    await expect(
+      sc.buy({ tag: 'Elonverse', stage: 'public', quantity: 1, address })
+    ).rejects.toThrow('Wallet is not whitelisted for the stage: public');
+  });
+
+  it('should report the remaining allowance of the wallet', async () => {
+    const state = await sc.getLaunchpadState('Elonverse', address);
+    expect(state.stages[0]).toMatchObject({
+      isActive: true,
+      isWhitelisted: true,
+      walletBuyCount: 1,
+      walletRemaining: 2,
+      isEligible: true,
+    });
+  });
+
+  it('should reject payment tokens not accepted by the stage', async () => {
+    await expect(
+      sc.buy({
+        tag: 'Elonverse',
+        stage: 'public',
+        quantity: 1,
+        paymentToken: 'USDC-c76f1f',
+        address,
+      })
+    ).rejects.toThrow('Payment token not accepted by the stage: USDC-c76f1f');
+  });
+});
+
+describe('LaunchpadModule.addToWhitelist', () => {
+  const sc = new LaunchpadModule(minter, new XOXNOClient());
+
+  it('should split large lists in gas bounded batches with sequential nonces', () => {
+    const interactions = sc.addToWhitelist(
+      'Elonverse',
+      'whitelist',
+      new Array(500).fill(address),
+      { address, nonce: 7 }
+    );
+    expect(interactions).toHaveLength(2);
+    const [first, second] = interactions.map((interaction) =>
+      interaction.buildTransaction().toSendable()
+    );
+    expect(first.nonce).toEqual(7);
+    expect(first.gasLimit).toBeLessThanOrEqual(600_000_000);
+    expect(second.nonce).toEqual(8);
+    expect(second.gasLimit).toEqual(10_000_000 + 107 * 1_500_000);
+  });
+
+  it('should start the nonces of a fresh account at 0', () => {
+    const [first, second] = sc
+      .addToWhitelist('Elonverse', 'whitelist', new Array(500).fill(address), {
+        address,
+        nonce: 0,
+      })
+      .map((interaction) => interaction.buildTransaction().toSendable());
+    expect(first.nonce).toEqual(0);
+    expect(second.nonce).toEqual(1);
+  });
+
+  it('should honor a smaller batch size', () => {
+    expect(
+      sc.addToWhitelist(
+        'Elonverse',
+        'whitelist',
+        [address, address, address],
+        {
+          address,
+        },
+        2
+      )
+    ).toHaveLength(2);
+  });
+});
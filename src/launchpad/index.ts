@@ -2,7 +2,30 @@ import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/intera
 import { SmartContractAbis } from '../utils/SmartContractAbis';
 import { getSmartContract } from '../utils/SmartContractService';
 import { ContractQueryRunner } from '../utils/scCalls';
+import { XOXNOClient } from '../utils/api';
 import type { SmartContract } from '@multiversx/sdk-core/out/smartcontracts/smartContract';
+import { Address } from '@multiversx/sdk-core/out/address';
+import { TokenTransfer } from '@multiversx/sdk-core/out/tokens';
+import BigNumber from 'bignumber.js';
+import { XOXNOValidationError } from '../utils/errors';
+import { toTokenTransfer } from '../utils/helpers';
+import { TokenRegistry } from '../utils/tokenRegistry';
+import {
+  LaunchpadBuyArgs,
+  LaunchpadStageArgs,
+  Payment,
+  WithSenderAndNonce,
+} from '../types/interactions';
+import {
+  LaunchpadStage,
+  LaunchpadState,
+  LaunchpadWalletStage,
+} from '../types/launchpad';
+
+/** Gas used by the minter to store or remove a single whitelisted wallet */
+const WHITELIST_GAS_PER_WALLET = 1_500_000;
+const WHITELIST_BASE_GAS = 10_000_000;
+const MAX_GAS_LIMIT = 600_000_000;
 
 /**
  * LaunchpadModule provides methods to interact with the minter smart contract.
@@ -11,13 +34,21 @@ import type { SmartContract } from '@multiversx/sdk-core/out/smartcontracts/smar
 export class LaunchpadModule {
   private minter: SmartContract;
   private call: ContractQueryRunner;
+  private api: XOXNOClient;
+  private tokens: TokenRegistry;
   /**
    * @constructor
    * @param {SmartContract} minterAbiXOXNO - The minter smart contract instance.
+   * @param {XOXNOClient} api - The client used to run the queries.
    */
-  constructor(minterAbiXOXNO: SmartContract) {
+  constructor(
+    minterAbiXOXNO: SmartContract,
+    api: XOXNOClient = XOXNOClient.init()
+  ) {
     this.minter = minterAbiXOXNO;
-    this.call = new ContractQueryRunner();
+    this.call = new ContractQueryRunner(api);
+    this.api = api;
+    this.tokens = TokenRegistry.for(api);
   }
 
   /**
@@ -34,12 +65,19 @@ export class LaunchpadModule {
    * Initializes the LaunchpadModule with a minter smart contract instance.
    * @static
    * @param {string} minterSC - The minter smart contract address.
+   * @param {XOXNOClient} api - The client used to fetch the ABI and run the queries.
    * @returns {Promise<LaunchpadModule>} A new instance of LaunchpadModule.
    */
-  static async init(minterSC: string) {
-    const minterAbiXOXNO = await SmartContractAbis.getMinter();
+  static async init(minterSC: string, api: XOXNOClient = XOXNOClient.init()) {
+    // The stage prices read the decimals of their tokens synchronously
+    const [minterAbiXOXNO] = await Promise.all([
+      SmartContractAbis.getMinter(api),
+      TokenRegistry.for(api)
+        .load()
+        .catch(() => undefined),
+    ]);
     const minter_abi = getSmartContract(minterAbiXOXNO, minterSC);
-    return new LaunchpadModule(minter_abi);
+    return new LaunchpadModule(minter_abi, api);
   }
 
   /**
@@ -66,7 +104,7 @@ export class LaunchpadModule {
   ): Promise<number> => {
     const interaction = this.minter.methods.buysPerWallet([user, tag]);
     const result = await this.getResult(interaction);
-    return result.firstValue?.valueOf();
+    return toNumber(result.firstValue?.valueOf());
   };
 
   /**
@@ -88,7 +126,7 @@ export class LaunchpadModule {
       stage,
     ]);
     const result = await this.getResult(interaction);
-    return result.firstValue?.valueOf();
+    return toNumber(result.firstValue?.valueOf());
   };
 
   /**
@@ -111,7 +149,7 @@ export class LaunchpadModule {
   public getLaunchpadCutFee = async (): Promise<number> => {
     const interaction = this.minter.methods.cutPercentage();
     const result = await this.getResult(interaction);
-    return result.firstValue?.valueOf();
+    return toNumber(result.firstValue?.valueOf());
   };
 
   /**
@@ -134,30 +172,410 @@ export class LaunchpadModule {
    * Fetches the list of stages for a tag.
    * @public
    * @param {string} tag - The tag.
-   * @returns {Promise<string[]>} An array of stages.
+   * @returns {Promise<LaunchpadStage[]>} An array of stages.
    */
-  public getStages = async (tag: string): Promise<string[]> => {
+  public getStages = async (tag: string): Promise<LaunchpadStage[]> => {
     const interaction = this.minter.methods.mintStage([tag]);
     const result = await this.getResult(interaction);
-    return result.firstValue?.valueOf().map((x: any) => {
+    return (result.firstValue?.valueOf() ?? []).map((x: any) => {
       const body = x[1].valueOf();
-      body.name = body.name.toString();
-      body.tag = body.name.toString();
-      body.start_time = parseInt(body.start_time.toString());
-      body.end_time = parseInt(body.end_time.toString());
-      body.mint_limit = parseInt(body.mint_limit.toString());
-      body.mint_count = parseInt(body.mint_count.toString());
-      body.max_per_wallet = parseInt(body.max_per_wallet.toString());
-      body.prices = body.prices.map((x: any) => {
-        const pr = x.valueOf();
-        return {
-          ...pr,
-          token_nonce: parseInt(pr.token_nonce.toString()),
-          amount: pr.amount.toString(),
-        };
-      });
-
-      return body;
+      const mintCount = toNumber(body.mint_count);
+      const mintLimit = toNumber(body.mint_limit);
+      return {
+        tag,
+        name: body.name.toString(),
+        startTime: toNumber(body.start_time),
+        endTime: toNumber(body.end_time),
+        mintCount,
+        mintLimit,
+        mintEnabled: Boolean(body.mint_enabled?.valueOf() ?? true),
+        walletLimit: toNumber(body.max_per_wallet),
+        isSoldOut: mintLimit > 0 && mintCount >= mintLimit,
+        prices: body.prices.map((price: any) => {
+          const pr = price.valueOf();
+          return {
+            tokenIdentifier: pr.token_identifier.toString(),
+            tokenNonce: pr.token_nonce.toString(),
+            amount: pr.amount.toString(10),
+          };
+        }),
+      };
     });
   };
+
+  /**
+   * Fetches the stages of a tag along with what a wallet can still mint in each of them.
+   * @public
+   * @param {string} tag - The tag.
+   * @param {string} wallet - The user's address.
+   * @returns {Promise<LaunchpadState>} The stages with the per wallet allowances and eligibility.
+   */
+  public getLaunchpadState = async (
+    tag: string,
+    wallet: string
+  ): Promise<LaunchpadState> => {
+    const [stages, walletBuyCount] = await Promise.all([
+      this.getStages(tag),
+      this.getWalletGlobalBuyCount(wallet, tag),
+    ]);
+    return {
+      tag,
+      wallet,
+      walletBuyCount,
+      stages: await Promise.all(
+        stages.map((stage) => this.getWalletStage(stage, wallet))
+      ),
+    };
+  };
+
+  /**
+   * Builds the mint transaction of a stage after checking the wallet can mint.
+   * The price is picked from the stage prices matching the payment token and multiplied by the quantity.
+   * @public
+   * @param {LaunchpadBuyArgs & WithSenderAndNonce} args - The tag, stage, quantity, payment token and sender.
+   * @returns {Promise<Interaction>} The interaction object of the smart contract
+   * @throws {XOXNOValidationError} If the stage is not open, the token is not accepted,
+   * the wallet limit or the remaining supply is exceeded, or the wallet is not whitelisted.
+   */
+  public buy = async ({
+    tag,
+    stage,
+    quantity,
+    paymentToken = 'EGLD',
+    paymentNonce = 0,
+    address,
+    nonce,
+  }: LaunchpadBuyArgs & WithSenderAndNonce): Promise<Interaction> => {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new XOXNOValidationError('Quantity must be a positive integer');
+    }
+    const stages = await this.getStages(tag);
+    const mintStage = stages.find((x) => x.name === stage);
+    if (!mintStage) {
+      throw new XOXNOValidationError('Stage not found: ' + stage);
+    }
+    const price = mintStage.prices.find(
+      (x) =>
+        x.tokenIdentifier === paymentToken &&
+        Number(x.tokenNonce) === paymentNonce
+    );
+    if (!price) {
+      throw new XOXNOValidationError(
+        'Payment token not accepted by the stage: ' + paymentToken
+      );
+    }
+    const state = await this.getWalletStage(mintStage, address);
+    if (!state.isActive) {
+      throw new XOXNOValidationError('Stage is not active: ' + stage);
+    }
+    if (
+      mintStage.mintLimit > 0 &&
+      mintStage.mintCount + quantity > mintStage.mintLimit
+    ) {
+      throw new XOXNOValidationError(
+        'Quantity exceeds the remaining supply of the stage'
+      );
+    }
+    if (
+      mintStage.walletLimit > 0 &&
+      state.walletBuyCount + quantity > mintStage.walletLimit
+    ) {
+      throw new XOXNOValidationError(
+        'Quantity exceeds the wallet limit of the stage'
+      );
+    }
+    if (!state.isWhitelisted) {
+      throw new XOXNOValidationError(
+        'Wallet is not whitelisted for the stage: ' + stage
+      );
+    }
+
+    const total = new BigNumber(price.amount).multipliedBy(quantity);
+    const interaction = this.minter.methods.buy([tag, stage, quantity]);
+    if (paymentToken === 'EGLD') {
+      interaction.withValue(TokenTransfer.egldFromBigInteger(total));
+    } else if (paymentNonce) {
+      interaction.withSingleESDTNFTTransfer(
+        TokenTransfer.metaEsdtFromBigInteger(paymentToken, paymentNonce, total)
+      );
+    } else {
+      interaction.withSingleESDTTransfer(
+        TokenTransfer.fungibleFromBigInteger(paymentToken, total)
+      );
+    }
+    return this.withSender(
+      interaction,
+      { address, nonce },
+      Math.min(MAX_GAS_LIMIT, 15_000_000 + quantity * 8_000_000)
+    );
+  };
+
+  /**
+   * Builds the transaction creating a mint stage.
+   * @public
+   * @param {LaunchpadStageArgs} stage - The configuration of the stage.
+   * @param {WithSenderAndNonce} sender - The sender address and optional nonce, has to be the collection owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public createStage(
+    stage: LaunchpadStageArgs,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.minter.methods.addStage(this.getStageArgs(stage)),
+      sender,
+      20_000_000
+    );
+  }
+
+  /**
+   * Builds the transaction replacing the configuration of an existing mint stage.
+   * @public
+   * @param {LaunchpadStageArgs} stage - The new configuration of the stage, matched by tag and name.
+   * @param {WithSenderAndNonce} sender - The sender address and optional nonce, has to be the collection owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public updateStage(
+    stage: LaunchpadStageArgs,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.minter.methods.updateStage(this.getStageArgs(stage)),
+      sender,
+      20_000_000
+    );
+  }
+
+  /**
+   * Builds the transaction replacing the prices of a mint stage.
+   * @public
+   * @param {string} tag - The tag.
+   * @param {string} stage - The stage.
+   * @param {Payment[]} prices - The accepted payments for one NFT.
+   * @param {WithSenderAndNonce} sender - The sender address and optional nonce, has to be the collection owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public setStagePrices(
+    tag: string,
+    stage: string,
+    prices: Payment[],
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.minter.methods.setStagePrices([
+        tag,
+        stage,
+        ...this.getPriceArgs(prices),
+      ]),
+      sender,
+      15_000_000
+    );
+  }
+
+  /**
+   * Builds the transaction enabling or disabling minting in a stage.
+   * @public
+   * @param {string} tag - The tag.
+   * @param {string} stage - The stage.
+   * @param {boolean} enabled - Whether the stage accepts mints.
+   * @param {WithSenderAndNonce} sender - The sender address and optional nonce, has to be the collection owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public setMintEnabled(
+    tag: string,
+    stage: string,
+    enabled: boolean,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.minter.methods.setMintEnabled([tag, stage, enabled]),
+      sender,
+      10_000_000
+    );
+  }
+
+  /**
+   * Builds the transactions adding wallets to the whitelist of a stage.
+   * Large lists are split so every transaction fits in the block gas limit.
+   * @public
+   * @param {string} tag - The tag.
+   * @param {string} stage - The stage.
+   * @param {string[]} wallets - The bech32 addresses to whitelist.
+   * @param {WithSenderAndNonce} sender - The sender address and the nonce of the first transaction, incremented for the next ones.
+   * @param {number} batchSize - The maximum number of wallets per transaction, capped by the gas limit.
+   * @returns {Interaction[]} One interaction per batch, to be sent in order.
+   */
+  public addToWhitelist(
+    tag: string,
+    stage: string,
+    wallets: string[],
+    sender: WithSenderAndNonce,
+    batchSize?: number
+  ): Interaction[] {
+    return this.getWhitelistBatches(wallets, batchSize).map((batch, index) =>
+      this.withSender(
+        this.minter.methods.addWhitelist([tag, stage, ...batch]),
+        {
+          ...sender,
+          nonce: sender.nonce === undefined ? undefined : sender.nonce + index,
+        },
+        WHITELIST_BASE_GAS + batch.length * WHITELIST_GAS_PER_WALLET
+      )
+    );
+  }
+
+  /**
+   * Builds the transactions removing wallets from the whitelist of a stage.
+   * Large lists are split so every transaction fits in the block gas limit.
+   * @public
+   * @param {string} tag - The tag.
+   * @param {string} stage - The stage.
+   * @param {string[]} wallets - The bech32 addresses to remove.
+   * @param {WithSenderAndNonce} sender - The sender address and the nonce of the first transaction, incremented for the next ones.
+   * @param {number} batchSize - The maximum number of wallets per transaction, capped by the gas limit.
+   * @returns {Interaction[]} One interaction per batch, to be sent in order.
+   */
+  public removeFromWhitelist(
+    tag: string,
+    stage: string,
+    wallets: string[],
+    sender: WithSenderAndNonce,
+    batchSize?: number
+  ): Interaction[] {
+    return this.getWhitelistBatches(wallets, batchSize).map((batch, index) =>
+      this.withSender(
+        this.minter.methods.removeWhitelist([tag, stage, ...batch]),
+        {
+          ...sender,
+          nonce: sender.nonce === undefined ? undefined : sender.nonce + index,
+        },
+        WHITELIST_BASE_GAS + batch.length * WHITELIST_GAS_PER_WALLET
+      )
+    );
+  }
+
+  /**
+   * Builds the transaction sending the mint proceeds of a tag to its shareholders.
+   * @public
+   * @param {string} tag - The tag.
+   * @param {WithSenderAndNonce} sender - The sender address and optional nonce, has to be the collection owner.
+   * @returns {Interaction} The interaction object of the smart contract
+   */
+  public withdrawProceeds(
+    tag: string,
+    sender: WithSenderAndNonce
+  ): Interaction {
+    return this.withSender(
+      this.minter.methods.withdrawFunds([tag]),
+      sender,
+      30_000_000
+    );
+  }
+
+  private async getWalletStage(
+    stage: LaunchpadStage,
+    wallet: string
+  ): Promise<LaunchpadWalletStage> {
+    const [walletBuyCount, whitelist] = await Promise.all([
+      this.getWalletStageBuyCount(wallet, stage.tag, stage.name),
+      this.getStageWhitelist(stage.tag, stage.name),
+    ]);
+    const now = Math.floor(Date.now() / 1000);
+    const isActive =
+      stage.mintEnabled &&
+      now >= stage.startTime &&
+      (!stage.endTime || now <= stage.endTime);
+    // Stages without whitelisted wallets are public
+    const isWhitelisted = !whitelist.length || whitelist.includes(wallet);
+    const limits = [
+      stage.walletLimit > 0 ? stage.walletLimit - walletBuyCount : Infinity,
+      stage.mintLimit > 0 ? stage.mintLimit - stage.mintCount : Infinity,
+    ];
+    const remaining = Math.max(0, Math.min(...limits));
+    return {
+      ...stage,
+      isActive,
+      isWhitelisted,
+      walletBuyCount,
+      walletRemaining: remaining === Infinity ? null : remaining,
+      isEligible: isActive && isWhitelisted && remaining > 0,
+    };
+  }
+
+  private withSender(
+    interaction: Interaction,
+    sender: WithSenderAndNonce,
+    gasLimit: number
+  ): Interaction {
+    if (sender.nonce !== undefined) {
+      interaction.withNonce(sender.nonce);
+    }
+    return interaction
+      .withSender(new Address(sender.address))
+      .withChainID(this.api.chain)
+      .withGasLimit(gasLimit);
+  }
+
+  private getStageArgs({
+    tag,
+    name,
+    start_time,
+    end_time,
+    mint_limit,
+    max_per_wallet,
+    prices,
+  }: LaunchpadStageArgs) {
+    if (!name) {
+      throw new XOXNOValidationError('Name is required');
+    }
+    if (end_time && end_time <= start_time) {
+      throw new XOXNOValidationError('End time must be after the start time');
+    }
+    return [
+      tag,
+      name,
+      start_time,
+      end_time,
+      mint_limit,
+      max_per_wallet,
+      ...this.getPriceArgs(prices),
+    ];
+  }
+
+  private getPriceArgs(prices: Payment[]) {
+    if (!prices.length) {
+      throw new XOXNOValidationError('At least one price is required');
+    }
+    return prices.map((price) => {
+      // Free mints are priced at 0, which is not a valid transfer amount
+      if (price.amount === 0) {
+        return [price.collection, price.nonce, 0];
+      }
+      const transfer = toTokenTransfer(price, false, this.tokens);
+      return [
+        transfer.tokenIdentifier,
+        transfer.nonce,
+        transfer.amountAsBigInteger,
+      ];
+    });
+  }
+
+  private getWhitelistBatches(wallets: string[], batchSize?: number) {
+    if (!wallets.length) {
+      throw new XOXNOValidationError('At least one wallet is required');
+    }
+    const maxBatch = Math.floor(
+      (MAX_GAS_LIMIT - WHITELIST_BASE_GAS) / WHITELIST_GAS_PER_WALLET
+    );
+    const size = Math.max(1, Math.min(batchSize ?? maxBatch, maxBatch));
+    const batches: string[][] = [];
+    for (let i = 0; i < wallets.length; i += size) {
+      batches.push(wallets.slice(i, i + size));
+    }
+    return batches;
+  }
 }
+
+/** Converts the BigNumber values returned by the queries, missing values count as 0 */
+const toNumber = (value: any): number =>
+  value === undefined || value === null ? 0 : parseInt(value.toString());
@@ -9,14 +9,10 @@ describe('NFTModule', () => {
   const nonce = 1;
   const nonceHex = '01';
   beforeAll(() => {
-    XOXNOClient.init();
+    XOXNOClient.init({ rateLimit: { requestsPerSecond: 1 } });
     nftModule = new NFTModule();
   });
 
-  beforeEach(async () => {
-    return new Promise((resolve) => setTimeout(resolve, 1000));
-  });
-
   it('should return NFT data when given a valid identifier', async () => {
     const nftData = await nftModule.getNFTByIdentifier(inputIdentifier);
     expect(nftData).toBeDefined();
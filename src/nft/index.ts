@@ -1,10 +1,14 @@
 import { XOXNOClient } from '..';
+import { TradingActivity } from '../types/collection';
 import { NftData } from '../types/nft';
 import { TradingActivityResponse, TradincActivityArgs } from '../types/trading';
 import { UserOffers } from '../types/user';
-import { getActivity } from '../utils/getActivity';
+import { getActivity, iterateActivity } from '../utils/getActivity';
+import { IterateOptions } from '../utils/paginate';
 import { getIdentifierFromColAndNonce } from '../utils/helpers';
 import { isValidCollectionTicker, isValidNftIdentifier } from '../utils/regex';
+import { XOXNOValidationError } from '../utils/errors';
+import { nftDataSchema } from '../utils/schemas';
 
 /**
  * NFTModule provides a set of methods to interact with single NFTs.
@@ -16,8 +20,8 @@ import { isValidCollectionTicker, isValidNftIdentifier } from '../utils/regex';
 
 export class NFTModule {
   private api: XOXNOClient;
-  constructor() {
-    this.api = XOXNOClient.init();
+  constructor(api: XOXNOClient = XOXNOClient.init()) {
+    this.api = api;
   }
 
   /**
@@ -36,12 +40,12 @@ export class NFTModule {
    */
   public getNFTByIdentifier = async (identifier: string): Promise<NftData> => {
     if (!isValidNftIdentifier(identifier)) {
-      throw new Error('Invalid identifier: ' + identifier);
+      throw new XOXNOValidationError('Invalid identifier: ' + identifier);
     }
     const response = await this.api.fetchWithTimeout<NftData>(
       `/nft/${identifier}`
     );
-    return response;
+    return this.api.validate(response, nftDataSchema, 'getNFTByIdentifier');
   };
 
   /**
@@ -64,7 +68,7 @@ export class NFTModule {
     top: number = 25
   ): Promise<UserOffers> => {
     if (!isValidNftIdentifier(identifier)) {
-      throw new Error('Invalid identifier: ' + identifier);
+      throw new XOXNOValidationError('Invalid identifier: ' + identifier);
     }
     const response = await this.api.fetchWithTimeout<UserOffers>(
       `/nft/${identifier}/offers?skip=${skip}&top=${top}`,
@@ -90,13 +94,19 @@ export class NFTModule {
     nonce: number
   ): Promise<NftData> => {
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
 
     const response = await this.api.fetchWithTimeout<NftData>(
       `/${getIdentifierFromColAndNonce(collection, nonce)}`
     );
-    return response;
+    return this.api.validate(
+      response,
+      nftDataSchema,
+      'getNFTByCollectionAndNonce'
+    );
   };
 
   /**
@@ -113,7 +123,9 @@ export class NFTModule {
   ): Promise<NftData> => {
     // check that collection is valid
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     // make sure nonceHex is even
     if (nonceHex.length % 2 !== 0) {
@@ -123,7 +135,11 @@ export class NFTModule {
     const response = await this.api.fetchWithTimeout<NftData>(
       `/${[collection, nonceHex].join('-')}`
     );
-    return response;
+    return this.api.validate(
+      response,
+      nftDataSchema,
+      'getNFTByCollectionAndNonceHex'
+    );
   };
 
   /**
@@ -138,4 +154,18 @@ export class NFTModule {
   ): Promise<TradingActivityResponse> => {
     return await getActivity(args, this.api);
   };
+
+  /**
+   * Iterates over the trading history matching the provided arguments, fetching the pages on demand.
+   *
+   * @param {TradincActivityArgs} args - The arguments for filtering the trading activity.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<TradingActivity>} The activity entries one by one.
+   */
+  public iterateActivity(
+    args: TradincActivityArgs,
+    options?: IterateOptions
+  ): AsyncGenerator<TradingActivity, void, undefined> {
+    return iterateActivity(args, this.api, options);
+  }
 }
@@ -3,8 +3,8 @@ import { XOXNOClient } from '../utils/api';
 
 export class StakingModule {
   private api: XOXNOClient;
-  constructor() {
-    this.api = XOXNOClient.init();
+  constructor(api: XOXNOClient = XOXNOClient.init()) {
+    this.api = api;
   }
   /** Gets pool details
    * @param {number} poolId - User's address
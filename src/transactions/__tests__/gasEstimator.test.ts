@@ -0,0 +1,74 @@
+import { Address } from '@multiversx/sdk-core/out/address';
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { GasEstimator } from '..';
+import { XOXNOClient } from '../../utils/api';
+import { getSmartContract } from '../../utils/SmartContractService';
+
+const contract = getSmartContract(
+  AbiRegistry.create({
+    endpoints: [
+      {
+        name: 'withdraw',
+        mutability: 'mutable',
+        inputs: [{ name: 'ids', type: 'variadic<u64>', multi_arg: true }],
+        outputs: [],
+      },
+    ],
+  }),
+  'erd1qqqqqqqqqqqqqpgq6wegs2xkypfpync8mn2sa5cmpqjlvrhwz5nqgepyg8'
+);
+
+const withdraw = () =>
+  contract.methods
+    .withdraw([1])
+    .withSender(
+      new Address(
+        'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57'
+      )
+    )
+    .withChainID('1')
+    .withGasLimit(15_000_000);
+
+describe('GasEstimator', () => {
+  let fetchMock: jest.SpyInstance;
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should add the safety margin to the simulated gas', async () => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ data: { txGasUnits: 4_000_000 } }))
+      );
+    const estimator = new GasEstimator(new XOXNOClient(), { margin: 0.2 });
+    const interaction = await estimator.apply(withdraw());
+    expect(Number(interaction.getGasLimit())).toEqual(4_800_000);
+    expect(fetchMock.mock.calls[0][0]).toEqual(
+      'https://api.xoxno.com/transaction/cost'
+    );
+  });
+
+  it('should keep the builder gas limit when the simulation fails', async () => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            data: { txGasUnits: 0, returnMessage: 'auction not found' },
+          })
+        )
+    );
+    const estimator = new GasEstimator(new XOXNOClient());
+    expect(await estimator.estimate(withdraw())).toEqual(15_000_000);
+  });
+
+  it('should keep the builder gas limit when the proxy is unreachable', async () => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => new Response('', { status: 404 }));
+    const estimator = new GasEstimator(new XOXNOClient());
+    expect(await estimator.estimate(withdraw())).toEqual(15_000_000);
+  });
+});
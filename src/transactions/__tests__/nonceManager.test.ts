@@ -0,0 +1,56 @@
+import { NonceManager } from '..';
+import { XOXNOClient } from '../../utils/api';
+
+const address =
+  'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+
+describe('NonceManager', () => {
+  let fetchMock: jest.SpyInstance;
+  let networkNonce: number;
+
+  beforeEach(() => {
+    networkNonce = 41;
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ address, nonce: networkNonce }))
+      );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should hand out consecutive nonces from the network account', async () => {
+    const nonces = new NonceManager(new XOXNOClient());
+    const all = await Promise.all([
+      nonces.next(address),
+      nonces.next(address),
+      nonces.reserve(address, 2),
+    ]);
+    expect(all.flat().sort()).toEqual([41, 42, 43, 44]);
+    expect(await nonces.withSender(address)).toEqual({ address, nonce: 45 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand out the released nonces first to fill the gaps', async () => {
+    const nonces = new NonceManager(new XOXNOClient());
+    await nonces.reserve(address, 4);
+    await nonces.release(address, 42);
+    expect(await nonces.reserve(address, 2)).toEqual([42, 45]);
+    await nonces.release(address, 45);
+    expect(await nonces.next(address)).toEqual(45);
+  });
+
+  it('should drop the nonces executed on the network when syncing', async () => {
+    const nonces = new NonceManager(new XOXNOClient());
+    await nonces.reserve(address, 2);
+    await nonces.release(address, 41);
+    networkNonce = 50;
+    expect(await nonces.sync(address)).toEqual(50);
+    nonces.reset(address);
+    networkNonce = 60;
+    expect(await nonces.next(address)).toEqual(60);
+  });
+});
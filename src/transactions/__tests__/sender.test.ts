@@ -0,0 +1,119 @@
+import { Address } from '@multiversx/sdk-core/out/address';
+import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
+import { TransactionWatcher } from '@multiversx/sdk-core/out/transactionWatcher';
+import { ProxyNetworkProvider } from '@multiversx/sdk-network-providers/out/proxyNetworkProvider';
+import { TransactionOnNetwork } from '@multiversx/sdk-network-providers/out/transactions';
+import { TransactionStatus } from '@multiversx/sdk-network-providers/out/transactionStatus';
+import { KeySigner, TransactionSender } from '..';
+import { TransactionOutcomeStatus } from '../../types/transactions';
+import { XOXNOClient } from '../../utils/api';
+import { XOXNOValidationError } from '../../utils/errors';
+import { getSmartContract } from '../../utils/SmartContractService';
+
+const address =
+  'erd1fmd662htrgt07xxd8me09newa9s0euzvpz3wp0c4pz78f83grt9qm6pn57';
+
+const contract = getSmartContract(
+  AbiRegistry.create({
+    endpoints: [
+      {
+        name: 'withdraw',
+        mutability: 'mutable',
+        inputs: [{ name: 'ids', type: 'variadic<u64>', multi_arg: true }],
+        outputs: [],
+      },
+    ],
+  }),
+  'erd1qqqqqqqqqqqqqpgq6wegs2xkypfpync8mn2sa5cmpqjlvrhwz5nqgepyg8'
+);
+
+const signer = new KeySigner({
+  sign: async () => new Uint8Array(64).fill(1),
+  getAddress: () => new Address(address),
+});
+
+const withdraw = (id: number, sender = address) =>
+  contract.methods
+    .withdraw([id])
+    .withSender(new Address(sender))
+    .withChainID('1')
+    .withGasLimit(15_000_000);
+
+describe('TransactionSender', () => {
+  let fetchMock: jest.SpyInstance;
+  let sendMock: jest.SpyInstance;
+  let awaitMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(
+        async () => new Response(JSON.stringify({ address, nonce: 41 }))
+      );
+    sendMock = jest
+      .spyOn(ProxyNetworkProvider.prototype, 'sendTransactions')
+      .mockImplementation(async (txs) => txs.map((_, i) => `hash${i}`));
+    awaitMock = jest
+      .spyOn(TransactionWatcher.prototype, 'awaitCompleted')
+      .mockImplementation(
+        async (hash) =>
+          new TransactionOnNetwork({
+            hash: hash as string,
+            status: new TransactionStatus('success'),
+          })
+      );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    sendMock.mockRestore();
+    awaitMock.mockRestore();
+  });
+
+  it('should sign the transactions with consecutive nonces from the network account', async () => {
+    const sender = new TransactionSender(signer, new XOXNOClient());
+    const [first, second] = await sender.sign([withdraw(1), withdraw(2)]);
+    expect(first.nonce).toEqual(BigInt(41));
+    expect(second.nonce).toEqual(BigInt(42));
+    expect(first.signature).toEqual(new Uint8Array(64).fill(1));
+    const [third] = await sender.sign([withdraw(3)]);
+    expect(third.nonce).toEqual(BigInt(43));
+  });
+
+  it('should reuse the nonces of the transactions rejected by the gateway', async () => {
+    sendMock.mockImplementationOnce(async () => ['hash0', null]);
+    const sender = new TransactionSender(signer, new XOXNOClient());
+    await sender.broadcast(await sender.sign([withdraw(1), withdraw(2)]));
+    const [retry] = await sender.sign([withdraw(2)]);
+    expect(retry.nonce).toEqual(BigInt(42));
+  });
+
+  it('should reject interactions sent by another account', async () => {
+    const sender = new TransactionSender(signer, new XOXNOClient());
+    await expect(
+      sender.sign([
+        withdraw(
+          1,
+          'erd1qqqqqqqqqqqqqpgq6wegs2xkypfpync8mn2sa5cmpqjlvrhwz5nqgepyg8'
+        ),
+      ])
+    ).rejects.toThrow(XOXNOValidationError);
+  });
+
+  it('should broadcast and return the outcome of every transaction', async () => {
+    const sender = new TransactionSender(signer, new XOXNOClient());
+    const outcomes = await sender.sendAll([withdraw(1), withdraw(2)]);
+    expect(outcomes.map(({ hash }) => hash)).toEqual(['hash0', 'hash1']);
+    expect(outcomes[0].status).toEqual(TransactionOutcomeStatus.Success);
+  });
+
+  it('should report the transactions rejected by the gateway without awaiting them', async () => {
+    sendMock.mockImplementationOnce(async () => ['hash0', null]);
+    const sender = new TransactionSender(signer, new XOXNOClient());
+    const [sent, rejected] = await sender.sendAll([withdraw(1), withdraw(2)]);
+    expect(sent.status).toEqual(TransactionOutcomeStatus.Success);
+    expect(rejected.status).toEqual(TransactionOutcomeStatus.Invalid);
+    expect(rejected.hash).toHaveLength(64);
+    expect(awaitMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,90 @@
+import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
+import { XOXNOClient } from '../utils/api';
+
+export type GasEstimatorOptions = Partial<{
+  /** The gateway simulating the transactions, defaults to the API of the client */
+  proxyUrl: string;
+  /** The safety margin added on top of the simulated gas, 0.1 adds 10% */
+  margin: number;
+  /** The protocol maximum gas limit of a transaction */
+  maxGasLimit: number;
+}>;
+
+type TransactionCostResponse = {
+  data?: {
+    txGasUnits?: number;
+    returnMessage?: string;
+  };
+  error?: string;
+};
+
+/**
+ * Replaces the gas limits set by the builders with the gas consumed by a simulated execution.
+ * The gateway executes the transaction without signature checks through its transaction/cost endpoint.
+ * When the simulation is not available or the simulated execution fails, the gas limit set by the builder is kept.
+ *
+ * @example
+ * const estimator = new GasEstimator(client, { margin: 0.15 });
+ * const interaction = await estimator.apply(market.bulkBuy(ids, payment, { address }));
+ */
+export class GasEstimator {
+  private readonly api: XOXNOClient;
+  private readonly proxyUrl: string;
+  private readonly margin: number;
+  private readonly maxGasLimit: number;
+
+  constructor(
+    api: XOXNOClient = XOXNOClient.init(),
+    {
+      proxyUrl = api.apiUrl,
+      margin = 0.1,
+      maxGasLimit = 600_000_000,
+    }: GasEstimatorOptions = {}
+  ) {
+    this.api = api;
+    this.proxyUrl = proxyUrl;
+    this.margin = margin;
+    this.maxGasLimit = maxGasLimit;
+  }
+
+  /**
+   * Simulates the interaction and returns the gas limit to use.
+   * @param interaction - The interaction built by one of the SDK modules, with its sender set.
+   * @returns The simulated gas plus the margin, or the gas limit of the interaction when the simulation fails.
+   */
+  public estimate = async (interaction: Interaction): Promise<number> => {
+    const fallback = Number(interaction.getGasLimit().valueOf());
+    // The heuristic limit is replaced during the simulation so it cannot cap the execution
+    const transaction = interaction.buildTransaction().toSendable();
+    try {
+      const response = await this.api.fetchWithTimeout<TransactionCostResponse>(
+        `${this.proxyUrl}/transaction/cost`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            ...transaction,
+            gasLimit: this.maxGasLimit,
+            signature: undefined,
+          }),
+        },
+        10000
+      );
+      const gas = response.data?.txGasUnits;
+      if (!gas || response.data?.returnMessage || response.error) {
+        return fallback;
+      }
+      return Math.min(this.maxGasLimit, Math.ceil(gas * (1 + this.margin)));
+    } catch {
+      return fallback;
+    }
+  };
+
+  /**
+   * Sets the estimated gas limit on the interaction.
+   * @param interaction - The interaction built by one of the SDK modules, with its sender set.
+   * @returns The same interaction.
+   */
+  public apply = async (interaction: Interaction): Promise<Interaction> => {
+    return interaction.withGasLimit(await this.estimate(interaction));
+  };
+}
@@ -0,0 +1,4 @@
+export * from './signer';
+export * from './sender';
+export * from './gasEstimator';
+export * from './nonceManager';
@@ -0,0 +1,127 @@
+import { XOXNOClient } from '../utils/api';
+import { UserModule } from '../users';
+import type { WithSenderAndNonce } from '../types/interactions';
+
+type AccountNonces = {
+  /** The nonce handed out after every released one is used again */
+  next: number;
+  /** The nonces handed out but not broadcast, reused first to fill the gaps */
+  released: number[];
+};
+
+/**
+ * NonceManager hands out consecutive nonces per address, so several transactions can be built and broadcast
+ * in the same block without waiting for the previous ones to be executed.
+ * The starting nonce is read from the network account the first time an address is used.
+ * Nonces of transactions that were not broadcast have to be released, they are handed out again before new ones.
+ *
+ * @example
+ * const nonces = new NonceManager();
+ * const first = market.withdrawGlobalOffer(12, await nonces.withSender(address));
+ * const second = market.withdrawGlobalOffer(13, await nonces.withSender(address));
+ */
+export class NonceManager {
+  private readonly users: UserModule;
+  private readonly accounts = new Map<string, Promise<AccountNonces>>();
+
+  constructor(api: XOXNOClient = XOXNOClient.init()) {
+    this.users = new UserModule(api);
+  }
+
+  private getAccount(address: string): Promise<AccountNonces> {
+    let account = this.accounts.get(address);
+    if (!account) {
+      account = this.users
+        .getUserAccount(address)
+        .then(({ nonce }) => ({ next: nonce, released: [] }));
+      // A failed lookup is not cached so the next call retries it
+      account.catch(() => this.accounts.delete(address));
+      this.accounts.set(address, account);
+    }
+    return account;
+  }
+
+  /**
+   * Hands out the next nonce of an address.
+   * @param address - The bech32 address of the sender.
+   * @returns The lowest released nonce, or the next unused one.
+   */
+  public next = async (address: string): Promise<number> => {
+    const [nonce] = await this.reserve(address, 1);
+    return nonce;
+  };
+
+  /**
+   * Hands out several nonces of an address at once.
+   * @param address - The bech32 address of the sender.
+   * @param count - The number of nonces to reserve.
+   * @returns The nonces in ascending order.
+   */
+  public reserve = async (
+    address: string,
+    count: number
+  ): Promise<number[]> => {
+    const account = await this.getAccount(address);
+    account.released.sort((a, b) => a - b);
+    const nonces = account.released.splice(0, count);
+    while (nonces.length < count) {
+      nonces.push(account.next++);
+    }
+    return nonces;
+  };
+
+  /**
+   * Builds the sender argument of the interaction builders with the next nonce of the address.
+   * @param address - The bech32 address of the sender.
+   * @returns The sender address and its nonce.
+   */
+  public withSender = async (address: string): Promise<WithSenderAndNonce> => {
+    return { address, nonce: await this.next(address) };
+  };
+
+  /**
+   * Gives back nonces whose transactions were rejected or never broadcast, they are handed out again first.
+   * @param address - The bech32 address of the sender.
+   * @param nonces - The released nonces.
+   */
+  public release = async (address: string, ...nonces: number[]) => {
+    const account = await this.getAccount(address);
+    for (const nonce of nonces) {
+      if (nonce < account.next && !account.released.includes(nonce)) {
+        account.released.push(nonce);
+      }
+    }
+    // Released nonces right below the next one are not gaps anymore
+    account.released.sort((a, b) => a - b);
+    while (account.released[account.released.length - 1] === account.next - 1) {
+      account.released.pop();
+      account.next--;
+    }
+  };
+
+  /**
+   * Aligns the nonces of an address with its network account, e.g. after transactions were sent by another client.
+   * The nonces already executed on the network are dropped and the next nonce never goes below the network one.
+   * @param address - The bech32 address of the sender.
+   * @returns The next nonce handed out.
+   */
+  public sync = async (address: string): Promise<number> => {
+    const [account, { nonce }] = await Promise.all([
+      this.getAccount(address),
+      this.users.getUserAccount(address),
+    ]);
+    account.next = Math.max(account.next, nonce);
+    account.released = account.released.filter((released) => released >= nonce);
+    return account.released.length
+      ? Math.min(...account.released)
+      : account.next;
+  };
+
+  /**
+   * Forgets the nonces of an address, the next one is read again from the network account.
+   * @param address - The bech32 address of the sender.
+   */
+  public reset = (address: string) => {
+    this.accounts.delete(address);
+  };
+}
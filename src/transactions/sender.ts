@@ -0,0 +1,219 @@
+import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/interaction';
+import type { Transaction } from '@multiversx/sdk-core/out/transaction';
+import { TransactionComputer } from '@multiversx/sdk-core/out/transactionComputer';
+import { TransactionWatcher } from '@multiversx/sdk-core/out/transactionWatcher';
+import { ResultsParser } from '@multiversx/sdk-core/out/smartcontracts/resultsParser';
+import { ProxyNetworkProvider } from '@multiversx/sdk-network-providers/out/proxyNetworkProvider';
+import type { TransactionOnNetwork } from '@multiversx/sdk-network-providers/out/transactions';
+import { XOXNOClient } from '../utils/api';
+import { XOXNOTransactionError, XOXNOValidationError } from '../utils/errors';
+import {
+  TransactionOutcome,
+  TransactionOutcomeStatus,
+} from '../types/transactions';
+import type { Signer } from './signer';
+import type { GasEstimator } from './gasEstimator';
+import { NonceManager } from './nonceManager';
+
+export type TransactionSenderOptions = Partial<{
+  /** The gateway used to broadcast and track the transactions, defaults to the API of the client */
+  proxyUrl: string;
+  /** The delay in ms between two status checks */
+  pollingInterval: number;
+  /** The delay in ms after which a transaction still pending is reported as failed */
+  timeout: number;
+  /** Replaces the gas limits of the builders with simulated ones before signing */
+  gasEstimator: GasEstimator;
+  /** Hands out the nonces, share one between the senders of the same account */
+  nonceManager: NonceManager;
+}>;
+
+/**
+ * TransactionSender turns the interactions returned by the SDK builders into completed transactions.
+ * It sets consecutive nonces through a NonceManager, signs, broadcasts and waits for the outcome.
+ * The nonces of the transactions that could not be signed or were rejected by the gateway are released for the next ones.
+ *
+ * @example
+ * const sender = new TransactionSender(new KeySigner(UserSigner.fromPem(pem)));
+ * const outcome = await sender.send(market.withdrawGlobalOffer(12, { address }));
+ */
+export class TransactionSender {
+  private readonly signer: Signer;
+  private readonly nonces: NonceManager;
+  private readonly proxy: ProxyNetworkProvider;
+  private readonly watcher: TransactionWatcher;
+  private readonly gasEstimator?: GasEstimator;
+  private readonly parser = new ResultsParser();
+  private readonly computer = new TransactionComputer();
+
+  constructor(
+    signer: Signer,
+    api: XOXNOClient = XOXNOClient.init(),
+    {
+      proxyUrl = api.apiUrl,
+      pollingInterval = 6000,
+      timeout = 120000,
+      gasEstimator,
+      nonceManager = new NonceManager(api),
+    }: TransactionSenderOptions = {}
+  ) {
+    this.signer = signer;
+    this.gasEstimator = gasEstimator;
+    this.nonces = nonceManager;
+    this.proxy = new ProxyNetworkProvider(proxyUrl, { timeout: 10000 });
+    this.watcher = new TransactionWatcher(this.proxy, {
+      pollingIntervalMilliseconds: pollingInterval,
+      timeoutMilliseconds: timeout,
+    });
+  }
+
+  /**
+   * Builds and signs the transactions of the interactions with consecutive nonces.
+   * @param interactions - The interactions, all of them sent by the signer.
+   * @returns The signed transactions, in the same order.
+   * @throws {XOXNOValidationError} If an interaction has a different sender than the signer.
+   */
+  public sign = async (interactions: Interaction[]): Promise<Transaction[]> => {
+    const address = this.signer.getAddress();
+    if (this.gasEstimator) {
+      await Promise.all(interactions.map(this.gasEstimator.apply));
+    }
+    const transactions = interactions.map((interaction) =>
+      interaction.buildTransaction()
+    );
+    if (transactions.some((transaction) => transaction.sender !== address)) {
+      throw new XOXNOValidationError(
+        'Every interaction has to be sent by the signer: ' + address
+      );
+    }
+    const nonces = await this.nonces.reserve(address, transactions.length);
+    transactions.forEach((transaction, index) => {
+      transaction.nonce = BigInt(nonces[index]);
+    });
+    try {
+      return await this.signer.signTransactions(transactions);
+    } catch (error) {
+      await this.nonces.release(address, ...nonces);
+      throw new XOXNOTransactionError(
+        error instanceof Error ? error.message : String(error),
+        undefined,
+        error
+      );
+    }
+  };
+
+  /**
+   * Broadcasts signed transactions, the nonces of the rejected ones are released.
+   * @param transactions - The signed transactions.
+   * @returns The hashes of the transactions, null for the ones rejected by the gateway.
+   */
+  public broadcast = async (
+    transactions: Transaction[]
+  ): Promise<(string | null)[]> => {
+    try {
+      const hashes: (string | null)[] =
+        await this.proxy.sendTransactions(transactions);
+      await this.releaseNonces(
+        transactions.filter((_, index) => !hashes[index])
+      );
+      return hashes;
+    } catch (error) {
+      await this.releaseNonces(transactions);
+      throw new XOXNOTransactionError(
+        error instanceof Error ? error.message : String(error),
+        this.getHash(transactions[0]),
+        error
+      );
+    }
+  };
+
+  /**
+   * Waits until a transaction is processed and decodes its outcome.
+   * @param hash - The hash of the transaction.
+   * @param interaction - The interaction the transaction was built from, used to decode the returned values.
+   * @returns The status, return code and typed values of the transaction.
+   */
+  public awaitOutcome = async (
+    hash: string,
+    interaction?: Interaction
+  ): Promise<TransactionOutcome> => {
+    let transaction: TransactionOnNetwork;
+    try {
+      transaction = (await this.watcher.awaitCompleted(
+        hash
+      )) as TransactionOnNetwork;
+    } catch (error) {
+      throw new XOXNOTransactionError(
+        error instanceof Error ? error.message : String(error),
+        hash,
+        error
+      );
+    }
+    const bundle = interaction
+      ? this.parser.parseOutcome(transaction, interaction.getEndpoint())
+      : { ...this.parser.parseUntypedOutcome(transaction), values: [] };
+    return {
+      hash,
+      status: transaction.status.isInvalid()
+        ? TransactionOutcomeStatus.Invalid
+        : bundle.returnCode.isSuccess() && !transaction.status.isFailed()
+          ? TransactionOutcomeStatus.Success
+          : TransactionOutcomeStatus.Failed,
+      returnCode: bundle.returnCode.toString(),
+      returnMessage: bundle.returnMessage,
+      values: bundle.values.map((value) => value.valueOf()),
+    };
+  };
+
+  /**
+   * Signs, broadcasts and waits for the outcome of a single interaction.
+   * @param interaction - The interaction built by one of the SDK modules.
+   * @returns The outcome of the transaction.
+   */
+  public send = async (
+    interaction: Interaction
+  ): Promise<TransactionOutcome> => {
+    const [outcome] = await this.sendAll([interaction]);
+    return outcome;
+  };
+
+  /**
+   * Signs, broadcasts and waits for the outcomes of several interactions sent by the same account.
+   * The transactions rejected by the gateway are not awaited, their outcome is invalid.
+   * @param interactions - The interactions built by the SDK modules.
+   * @returns The outcomes of the transactions, in the same order.
+   */
+  public sendAll = async (
+    interactions: Interaction[]
+  ): Promise<TransactionOutcome[]> => {
+    const transactions = await this.sign(interactions);
+    const hashes = await this.broadcast(transactions);
+    return Promise.all(
+      hashes.map((hash, index) =>
+        hash
+          ? this.awaitOutcome(hash, interactions[index])
+          : {
+              hash: this.getHash(transactions[index]) as string,
+              status: TransactionOutcomeStatus.Invalid,
+              returnCode: '',
+              returnMessage: 'Transaction rejected by the gateway',
+              values: [],
+            }
+      )
+    );
+  };
+
+  private async releaseNonces(transactions: Transaction[]) {
+    for (const transaction of transactions) {
+      await this.nonces.release(transaction.sender, Number(transaction.nonce));
+    }
+  }
+
+  private getHash(transaction?: Transaction): string | undefined {
+    return transaction
+      ? Buffer.from(this.computer.computeTransactionHash(transaction)).toString(
+          'hex'
+        )
+      : undefined;
+  }
+}
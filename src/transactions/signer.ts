@@ -0,0 +1,84 @@
+import type { Transaction } from '@multiversx/sdk-core/out/transaction';
+import { TransactionComputer } from '@multiversx/sdk-core/out/transactionComputer';
+
+/**
+ * Signs the transactions built from the SDK interactions.
+ * Implement it to plug any key management, or use KeySigner and ProviderSigner.
+ */
+export interface Signer {
+  /** The bech32 address of the signing account */
+  getAddress(): string;
+  /** Signs the transactions in place and returns them */
+  signTransactions(transactions: Transaction[]): Promise<Transaction[]>;
+}
+
+/**
+ * A raw key signer, such as the UserSigner of @multiversx/sdk-wallet
+ * created from a PEM file, a mnemonic or a keystore
+ */
+export interface KeyPairSigner {
+  sign(data: Uint8Array): Promise<Uint8Array>;
+  getAddress(): { bech32(): string };
+}
+
+/**
+ * An external wallet, such as the extension, xPortal or Ledger providers of @multiversx/sdk-dapp
+ */
+export interface WalletProvider {
+  signTransactions(transactions: Transaction[]): Promise<Transaction[]>;
+}
+
+/**
+ * Signs transactions locally with a private key.
+ *
+ * @example
+ * import { UserSigner } from '@multiversx/sdk-wallet';
+ * const signer = new KeySigner(UserSigner.fromPem(pem));
+ */
+export class KeySigner implements Signer {
+  private readonly signer: KeyPairSigner;
+  private readonly computer = new TransactionComputer();
+
+  constructor(signer: KeyPairSigner) {
+    this.signer = signer;
+  }
+
+  public getAddress(): string {
+    return this.signer.getAddress().bech32();
+  }
+
+  public async signTransactions(
+    transactions: Transaction[]
+  ): Promise<Transaction[]> {
+    for (const transaction of transactions) {
+      transaction.signature = await this.signer.sign(
+        this.computer.computeBytesForSigning(transaction)
+      );
+    }
+    return transactions;
+  }
+}
+
+/**
+ * Delegates the signature to an external wallet, the user confirms the transactions in the wallet.
+ *
+ * @example
+ * const signer = new ProviderSigner(ExtensionProvider.getInstance(), address);
+ */
+export class ProviderSigner implements Signer {
+  private readonly provider: WalletProvider;
+  private readonly address: string;
+
+  constructor(provider: WalletProvider, address: string) {
+    this.provider = provider;
+    this.address = address;
+  }
+
+  public getAddress(): string {
+    return this.address;
+  }
+
+  public signTransactions(transactions: Transaction[]): Promise<Transaction[]> {
+    return this.provider.signTransactions(transactions);
+  }
+}
@@ -105,7 +105,8 @@ export interface AttributeData {
 
 export interface MetadataAttribute {
   trait_type: string;
-  value: string;
+  /** The numeric traits are returned as numbers */
+  value: string | number;
 }
 
 export interface TraitValues {
@@ -269,7 +270,7 @@ export interface Filter {
 
 export interface NftMetadataAttributes {
   trait_type: string;
-  value: string;
+  value: string | number;
 }
 
 export interface SearchNFTs {
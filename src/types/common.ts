@@ -4,6 +4,17 @@ export interface TokenUSDPrices {
   [traitType: string]: number;
 }
 
+export interface TokenInfo {
+  identifier: string;
+  name: string;
+  ticker: string;
+  decimals: number;
+  svgUrl?: string;
+  pngUrl?: string;
+  /** The USD price of one token, undefined when the API has no price for it */
+  usdPrice?: number;
+}
+
 export type AshSwapPaymentData = {
   paymentToken: string;
   swapAmount: number;
@@ -5,3 +5,5 @@ export * from './interactions';
 export * from './staking';
 export * from './user';
 export * from './common';
+export * from './launchpad';
+export * from './transactions';
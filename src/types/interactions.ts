@@ -1,3 +1,7 @@
+import type { GlobalOffers, MetadataAttribute } from './collection';
+import type { TokenAmount } from '../utils/tokenAmount';
+import type { AshSwapPaymentData } from './common';
+
 export type Offer = {
   offer_id: number;
   collection: string;
@@ -44,6 +48,12 @@ export interface NFTBody {
   amount?: number;
 }
 
+/** The short keys of the marketplaces the SDK can trade on */
+export type Market = 'XO' | 'FM' | 'DR' | 'KG';
+
+/** The marketplaces other than XO, whose ABIs come from their verified source code */
+export type ExternalMarket = Exclude<Market, 'XO'>;
+
 export interface WithSenderAndNonce {
   address: string;
   nonce?: number;
@@ -53,10 +63,19 @@ export interface Payment extends NFTBody {
   decimals?: number;
 }
 
+/** Pays a listing with another token than its payment token, swapped through AshSwap by the marketplace */
+export interface SwapPayment {
+  /** The AshSwap quote of the listing price, from CommonModule.getAshSwapAmount */
+  quote: AshSwapPaymentData;
+  /** The maximum increase of the quoted swap amount, 0.01 allows 1% (default is 0.01) */
+  slippage?: number;
+}
+
 export interface SendGlobalOffer {
   payment_token: string;
   payment_nonce: number;
-  price: number;
+  /** The price in EGLD denomination when a number, pass a TokenAmount for tokens with other decimals */
+  price: number | TokenAmount;
   collection: string;
   attributes?: string;
   depositAmount?: number;
@@ -65,7 +84,8 @@ export interface SendGlobalOffer {
 export interface SendCustomOffer {
   payment_token: string;
   payment_nonce: number;
-  price: number;
+  /** The price in EGLD denomination when a number, pass a TokenAmount for tokens with other decimals */
+  price: number | TokenAmount;
   nft: NFTBody;
   deadline: number;
   depositAmount?: number;
@@ -90,6 +110,7 @@ export interface NewListingArgs {
   max_bid?: string;
   deadline?: number;
   accepted_payment_token: string;
+  /** Resolved from the TokenRegistry when omitted */
   accepted_payment_token_decimals?: number;
   bid: boolean;
   opt_sft_max_one_per_payment?: boolean;
@@ -99,3 +120,164 @@ export interface NewListingArgs {
   nonce: number;
   nft_amount: number;
 }
+
+export interface P2POfferArgs {
+  /** The tokens sent with the offer, NFTs, SFTs, fungible tokens or EGLD */
+  offered: (Payment | TokenAmount)[];
+  /** The tokens the counterparty has to send to accept the offer */
+  wanted: (Payment | TokenAmount)[];
+  /** Restricts the offer to a single counterparty, anyone can accept it when omitted */
+  receiver?: string;
+  /** Unix timestamp in seconds after which the offer cannot be accepted, 0 means no deadline */
+  deadline?: number;
+}
+
+export interface P2PTokenAmount {
+  collection: string;
+  nonce: number;
+  /** The raw amount, not shifted by the token decimals */
+  amount: string;
+}
+
+export interface P2POffer {
+  offer_id: number;
+  owner: string;
+  receiver?: string;
+  offered: P2PTokenAmount[];
+  wanted: P2PTokenAmount[];
+  deadline: number;
+  timestamp: number;
+}
+
+export interface Shareholder {
+  address: string;
+  /** The share of the mint revenue in percent, e.g. 12.5 */
+  share: number;
+}
+
+export interface IssueCollectionArgs {
+  /** The creator tag registered in the manager contract */
+  tag: string;
+  /** The display name of the collection, alphanumeric only */
+  name: string;
+  /** The ticker of the collection, 3 to 10 uppercase alphanumeric characters */
+  ticker: string;
+  /** The royalties of every NFT minted in the collection in percent, e.g. 7.5 */
+  royalties: number;
+  /** Issues an SFT collection instead of an NFT collection */
+  isSFT?: boolean;
+}
+
+export interface ManagerCreatorInfo {
+  address: string;
+  /** The registered creator tag, undefined when the address is not a creator */
+  tag?: string;
+  /** The addresses of the minters deployed by the creator */
+  minters: string[];
+}
+
+export interface LaunchpadBuyArgs {
+  /** The collection tag in the minter contract */
+  tag: string;
+  /** The name of the mint stage */
+  stage: string;
+  /** The number of NFTs to mint */
+  quantity: number;
+  /** The payment token, has to be one of the stage prices, defaults to EGLD */
+  paymentToken?: string;
+  paymentNonce?: number;
+}
+
+export interface LaunchpadStageArgs {
+  /** The collection tag in the minter contract */
+  tag: string;
+  /** The name of the mint stage, unique per tag */
+  name: string;
+  /** Unix timestamp in seconds when minting opens */
+  start_time: number;
+  /** Unix timestamp in seconds when minting closes, 0 means no end */
+  end_time: number;
+  /** The number of NFTs mintable in the stage, 0 means the whole collection */
+  mint_limit: number;
+  /** The number of NFTs a wallet can mint in the stage, 0 means unlimited */
+  max_per_wallet: number;
+  /** The accepted payments for one NFT, amounts in the human readable denomination */
+  prices: Payment[];
+}
+
+export interface SweepArgs {
+  /** The collection to sweep */
+  collection: string;
+  /** The maximum amount spent, in the payment token unit, e.g. 10 for 10 EGLD, or an exact TokenAmount which also sets the payment token */
+  budget?: number | TokenAmount;
+  /** The maximum number of NFTs bought */
+  count?: number;
+  /** If set, only the NFTs having all these attributes are bought */
+  attributes?: MetadataAttribute[];
+  /** If set, only the NFTs ranked up to this rarity rank are bought */
+  maxRank?: number;
+  /** The payment token of the listings, defaults to EGLD when a budget is set, otherwise every token is accepted */
+  paymentToken?: string;
+  /** The maximum number of NFTs bought per transaction, capped by the gas limit */
+  batchSize?: number;
+}
+
+/** The amounts of a trade, from the price paid by the buyer to the amount left to the seller after fees */
+export interface TradeQuote {
+  quantity: number;
+  /** The price of the traded tokens, before fees */
+  gross: TokenAmount;
+  marketplaceFee: TokenAmount;
+  royalties: TokenAmount;
+  /** The amount received by the seller */
+  sellerNet: TokenAmount;
+  /** The amount paid by the buyer */
+  buyerTotal: TokenAmount;
+  /** The marketplace fee in basis points of the gross price, 10000 is 100% */
+  marketplaceFeeBps: number;
+  /** The creator royalties in basis points of the gross price */
+  royaltiesBps: number;
+  /** The same amounts in USD, undefined when the payment token has no USD price */
+  usd?: Record<
+    'gross' | 'marketplaceFee' | 'royalties' | 'sellerNet' | 'buyerTotal',
+    number
+  >;
+}
+
+/** A global offer the NFT matches, with the amounts of the trade */
+export interface GlobalOfferQuote {
+  offer: GlobalOffers;
+  quote: TradeQuote;
+}
+
+/** A global offer the NFT can be sold to, with the arguments of `acceptGlobalOffer` */
+export interface GlobalOfferMatch extends GlobalOfferQuote {
+  args: AcceptGlobalOffer;
+}
+
+export interface GlobalOfferMatches {
+  /** The offers ready to be accepted, best first */
+  matches: GlobalOfferMatch[];
+  /** The offers with required attributes, best first, accepted with a signature of the marketplace which the SDK does not provide */
+  signatureRequired: GlobalOfferQuote[];
+}
+
+export enum PreflightIssueCode {
+  UnacceptedPaymentToken = 'unacceptedPaymentToken',
+  DeadlineInPast = 'deadlineInPast',
+  InvalidPrice = 'invalidPrice',
+  NotOwner = 'notOwner',
+  InsufficientBalance = 'insufficientBalance',
+  AuctionNotFound = 'auctionNotFound',
+  AuctionEnded = 'auctionEnded',
+  OwnAuction = 'ownAuction',
+  OfferNotFound = 'offerNotFound',
+}
+
+/** A reason a transaction would fail on-chain, found before it is signed */
+export interface PreflightIssue {
+  code: PreflightIssueCode;
+  message: string;
+  /** The path of the invalid argument, e.g. listings[1].deadline */
+  path: string;
+}
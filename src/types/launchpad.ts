@@ -0,0 +1,51 @@
+import { MintStage, StagePrice } from './collection';
+
+/**
+ * A stage price as stored by the minter contract, the amount is the raw
+ * integer string so it never loses precision when converted to a bigint
+ */
+export type LaunchpadStagePrice = Pick<
+  StagePrice,
+  'tokenIdentifier' | 'tokenNonce' | 'amount'
+>;
+
+/**
+ * A mint stage as stored by the minter contract, named after the REST MintStage
+ * returned by CollectionModule.getCollectionMintInfo
+ */
+export type LaunchpadStage = Pick<
+  MintStage,
+  | 'name'
+  | 'startTime'
+  | 'endTime'
+  | 'mintCount'
+  | 'mintLimit'
+  | 'mintEnabled'
+  | 'walletLimit'
+  | 'isSoldOut'
+> & {
+  /** The collection tag the stage belongs to */
+  tag: string;
+  prices: LaunchpadStagePrice[];
+};
+
+export type LaunchpadWalletStage = LaunchpadStage & {
+  /** True when minting is enabled and the current time is within the stage window */
+  isActive: boolean;
+  /** True when the stage has no whitelist or the wallet is part of it */
+  isWhitelisted: boolean;
+  /** The number of NFTs already minted by the wallet in the stage */
+  walletBuyCount: number;
+  /** The number of NFTs the wallet can still mint, bounded by the remaining supply, null when unlimited */
+  walletRemaining: number | null;
+  /** True when the wallet can mint at least one NFT right now */
+  isEligible: boolean;
+};
+
+export type LaunchpadState = {
+  tag: string;
+  wallet: string;
+  /** The number of NFTs minted by the wallet across every stage of the tag */
+  walletBuyCount: number;
+  stages: LaunchpadWalletStage[];
+};
@@ -128,3 +128,50 @@ export interface StakingSummaryPools {
   hasUnboundPeriod: boolean;
   unBoundPeriod: number;
 }
+
+export interface StakedNFT {
+  collection: string;
+  nonce: number;
+  amount: number;
+}
+
+export interface CreateStakingPoolArgs {
+  /** The display name of the pool */
+  name: string;
+  /** The collections accepted by the pool */
+  collections: string[];
+  pool_type: PoolType;
+  issuing_type: IssuingType;
+  /** The number of epochs the rewards are issued for */
+  duration_in_epochs: number;
+  /** The number of epochs the NFTs stay locked after unstaking, 0 disables the unbound period */
+  unbound_period?: number;
+  /** The maximum number of NFTs staked in the pool, 0 means unlimited */
+  max_stake_per_pool?: number;
+  /** The maximum number of NFTs staked by a single wallet, 0 means unlimited */
+  max_stake_per_wallet?: number;
+  /** Restricts the pool to the whitelisted nonces added after creation */
+  whitelist_pool?: boolean;
+}
+
+export interface StakingRewardToken {
+  token: string;
+  nonce?: number;
+  /** The amount deposited, in the human readable denomination */
+  amount: number;
+  decimals?: number;
+}
+
+export interface PendingReward {
+  reward_token: string;
+  reward_token_nonce: number;
+  /** The raw amount, not shifted by the token decimals */
+  amount: string;
+}
+
+export interface UserStakedNFTs {
+  pool_id: number;
+  nfts: StakedNFT[];
+  /** The NFTs waiting for the unbound period to end before they can be claimed */
+  unstaked: Array<StakedNFT & { unbound_epoch: number }>;
+}
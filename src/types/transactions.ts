@@ -0,0 +1,106 @@
+import type { Market } from './interactions';
+import { NftActivityType } from './trading';
+
+export enum TransactionOutcomeStatus {
+  Success = 'success',
+  /** Executed but the smart contract call failed, the gas is consumed */
+  Failed = 'failed',
+  /** Rejected by the protocol before execution, e.g. insufficient funds */
+  Invalid = 'invalid',
+}
+
+export interface TransactionOutcome {
+  hash: string;
+  status: TransactionOutcomeStatus;
+  /** The smart contract return code, e.g. 'ok' or 'user error' */
+  returnCode: string;
+  /** The error message of the smart contract, empty on success */
+  returnMessage: string;
+  /** The typed values returned by the endpoint, decoded with its ABI */
+  values: unknown[];
+}
+
+interface MarketEventBase {
+  /** The marketplace which emitted the event */
+  market: Market;
+  /** The name of the event in the ABI of the marketplace */
+  name: string;
+  collection: string;
+  nonce: number;
+  quantity: number;
+}
+
+/** A listing or auction created, from `auction_token_event` */
+export interface ListingCreatedEvent extends MarketEventBase {
+  type: NftActivityType.LISTING_CREATE;
+  auctionId: number;
+  seller: string;
+  paymentToken: string;
+  paymentNonce: number;
+  /** The minimum bid as a big integer string, in the smallest unit of the payment token */
+  price: string;
+  /** The maximum bid as a big integer string, 0 when the auction has none */
+  maxBid: string;
+}
+
+/** A listing withdrawn by its seller, from `withdraw_event` */
+export interface ListingWithdrawnEvent extends MarketEventBase {
+  type: NftActivityType.LISTING_WITHDRAW;
+  auctionId: number;
+  seller: string;
+}
+
+/** A bid on an auction, from `bid_event` */
+export interface AuctionBidEvent extends MarketEventBase {
+  type: NftActivityType.AUCTION_BID;
+  auctionId: number;
+  buyer: string;
+  /** The bid as a big integer string, in the smallest unit of the payment token */
+  price: string;
+}
+
+/** A listing bought, from `buy_sft_event`, or an auction ended with a winner, from `end_auction_event` */
+export interface TradeEvent extends MarketEventBase {
+  type: NftActivityType.TRADE | NftActivityType.AUCTION_TRADE;
+  auctionId: number;
+  buyer: string;
+  seller: string;
+  /** The amount paid as a big integer string, in the smallest unit of the payment token */
+  price: string;
+}
+
+/** A custom offer accepted by the owner, from `accept_offer_token_event` */
+export interface OfferAcceptedEvent extends MarketEventBase {
+  type: NftActivityType.OFFER_TRADE;
+  offerId: number;
+  buyer: string;
+  seller: string;
+  paymentToken: string;
+  paymentNonce: number;
+  /** The amount paid as a big integer string, in the smallest unit of the payment token */
+  price: string;
+}
+
+/** A global offer accepted by an owner, from `accept_global_offer_token_event` */
+export interface GlobalOfferTradedEvent extends MarketEventBase {
+  type: NftActivityType.GLOBAL_OFFER_TRADE;
+  offerId: number;
+  buyer: string;
+  seller: string;
+  paymentToken: string;
+  paymentNonce: number;
+  /** The amount paid as a big integer string, in the smallest unit of the payment token */
+  price: string;
+}
+
+/**
+ * A marketplace event decoded from the logs of a transaction, narrowed by its `type`.
+ * The types are the NftActivityType values of the trading activity feed.
+ */
+export type MarketEvent =
+  | ListingCreatedEvent
+  | ListingWithdrawnEvent
+  | AuctionBidEvent
+  | TradeEvent
+  | OfferAcceptedEvent
+  | GlobalOfferTradedEvent;
@@ -9,6 +9,7 @@ import {
   SuggestNFTsArgs,
   SuggestResults,
   TradincActivityArgs,
+  TradingActivity,
   TradingActivityResponse,
 } from '../types';
 import {
@@ -18,6 +19,7 @@ import {
   IApiShareholder,
   IOwnerInfo,
   IUserProfile,
+  OfferBody,
   PoolDetails,
   StakingCreatorInfo,
   UserAnalyticSummary,
@@ -31,16 +33,18 @@ import {
   UserTokenInventory,
   UserXOXNODrop,
 } from '../types/user';
-import { getActivity } from '../utils/getActivity';
+import { getActivity, iterateActivity } from '../utils/getActivity';
+import { IterateOptions, paginate } from '../utils/paginate';
 import { isAddressValid } from '../utils/helpers';
 import { isValidCollectionTicker } from '../utils/regex';
+import { XOXNOValidationError } from '../utils/errors';
 
 export class UserModule {
   private api: XOXNOClient;
   private collection: CollectionModule;
-  constructor() {
-    this.api = XOXNOClient.init();
-    this.collection = new CollectionModule();
+  constructor(api: XOXNOClient = XOXNOClient.init()) {
+    this.api = api;
+    this.collection = new CollectionModule(api);
   }
 
   /**
@@ -50,7 +54,8 @@ export class UserModule {
    * @returns {IUserProfile}
    */
   public getUserProfile = async (address: string): Promise<IUserProfile> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<IUserProfile>(
       `/user/${address}/profile`
     );
@@ -85,7 +90,8 @@ export class UserModule {
   public getUserAccount = async (
     address: string
   ): Promise<UserNetworkAccount> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<UserNetworkAccount>(
       `/user/${address}/network-account`
     );
@@ -101,7 +107,8 @@ export class UserModule {
   public getUserTokenInventory = async (
     address: string
   ): Promise<UserTokenInventory> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<UserTokenInventory>(
       `/user/${address}/token-inventory`
     );
@@ -118,7 +125,8 @@ export class UserModule {
   public getUserSummaryInventory = async (
     address: string
   ): Promise<UserInventory[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<UserInventory[]>(
       `/user/${address}/inventory-summary`
     );
@@ -136,6 +144,19 @@ export class UserModule {
     return await this.collection.getNFTs(args);
   };
 
+  /**
+   * Iterates over the user's NFTs matching the provided arguments, fetching the pages on demand
+   * @param args - The search parameters of the first page
+   * @param options - The overall item limit and the abort signal
+   * @returns {AsyncGenerator<NftData>} - The NFTs one by one
+   */
+  public iterateUserNFTs(
+    args: GetNFTsArgs,
+    options?: IterateOptions
+  ): AsyncGenerator<NftData, void, undefined> {
+    return this.collection.iterateNFTs(args, options);
+  }
+
   /**
    * @name getUserOffers
    * @description Fetches all offers sent or received associated with a user address
@@ -143,7 +164,8 @@ export class UserModule {
    * @returns {UserOffers} - The user's listings
    */
   public getUserOffers = async (args: ArgsUserOffers): Promise<UserOffers> => {
-    if (!isAddressValid(args.address)) throw new Error('Invalid address');
+    if (!isAddressValid(args.address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<UserOffers>(
       `/user/${args.address}/offers`,
       {
@@ -157,6 +179,32 @@ export class UserModule {
     return response;
   };
 
+  /**
+   * @name iterateUserOffers
+   * @description Iterates over all offers sent or received by a user address, fetching the pages on demand
+   * @param {ArgsUserOffers} args - The arguments of the first page
+   * @param {IterateOptions} options - The overall item limit and the abort signal
+   * @returns {AsyncGenerator<OfferBody>} - The offers one by one
+   */
+  public iterateUserOffers(
+    args: ArgsUserOffers,
+    options?: IterateOptions
+  ): AsyncGenerator<OfferBody, void, undefined> {
+    return paginate(
+      async (page: ArgsUserOffers) => {
+        const response = await this.getUserOffers(page);
+        return {
+          items: response.resources,
+          next: { ...page, skip: page.skip + page.top },
+          hasMore: response.hasMoreResults,
+        };
+      },
+      args,
+      25,
+      options
+    );
+  }
+
   /**
    * @public
    * @async
@@ -175,10 +223,10 @@ export class UserModule {
     args: SuggestNFTsArgs
   ): Promise<SuggestResults> => {
     if (args.top && args.top > 35) {
-      throw new Error('Top cannot be greater than 35');
+      throw new XOXNOValidationError('Top cannot be greater than 35');
     }
     if (!args.name) {
-      throw new Error('Name is required');
+      throw new XOXNOValidationError('Name is required');
     }
 
     const payloadBody: SuggestNFTsArgs = {
@@ -211,6 +259,20 @@ export class UserModule {
     return await getActivity(args, this.api);
   };
 
+  /**
+   * Iterates over the trading history matching the provided arguments, fetching the pages on demand.
+   *
+   * @param {TradincActivityArgs} args - The arguments for filtering the trading activity.
+   * @param {IterateOptions} options - The overall item limit and the abort signal.
+   * @returns {AsyncGenerator<TradingActivity>} The activity entries one by one.
+   */
+  public iterateActivity(
+    args: TradincActivityArgs,
+    options?: IterateOptions
+  ): AsyncGenerator<TradingActivity, void, undefined> {
+    return iterateActivity(args, this.api, options);
+  }
+
   /** Gets user's creator profile
    * @param {String} address - User's address
    * @returns {CreatorProfile} User's creator profile struct
@@ -219,7 +281,8 @@ export class UserModule {
   public getUserCreatorProfile = async (
     address: string
   ): Promise<CreatorProfile> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
 
     const response = await this.api.fetchWithTimeout<CreatorProfile>(
       `/user/${address}/creator/profile`
@@ -233,7 +296,8 @@ export class UserModule {
    * @throws {Error} Throws an error if the address is invalid
    *  */
   public getCreatorListings = async (address: string): Promise<IMintInfo[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
 
     const response = await this.api.fetchWithTimeout<IMintInfo[]>(
       `/user/${address}/creator/listing`
@@ -249,7 +313,8 @@ export class UserModule {
   public getUserStakingSummary = async (
     address: string
   ): Promise<UserStakingSummary[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
 
     const response = await this.api.fetchWithTimeout<UserStakingSummary[]>(
       `/user/${address}/staking/summary`
@@ -265,7 +330,8 @@ export class UserModule {
   public getUserStakingAailable = async (
     address: string
   ): Promise<PoolDetails[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
 
     const response = await this.api.fetchWithTimeout<PoolDetails[]>(
       `/user/${address}/staking/available-pools`
@@ -279,7 +345,8 @@ export class UserModule {
    * @throws {Error} Throws an error if the address is invalid
    *  */
   public getUserCreatorInfo = async (address: string): Promise<CreatorInfo> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
 
     const response = await this.api.fetchWithTimeout<CreatorInfo>(
       `/user/${address}/creator/details`
@@ -297,9 +364,12 @@ export class UserModule {
     address: string,
     collection: string
   ): Promise<UserCollectionStaking[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     if (!isValidCollectionTicker(collection)) {
-      throw new Error('Invalid collection ticker: ' + collection);
+      throw new XOXNOValidationError(
+        'Invalid collection ticker: ' + collection
+      );
     }
     const response = await this.api.fetchWithTimeout<UserCollectionStaking[]>(
       `/user/${address}/staking/collection/${collection}`
@@ -316,7 +386,8 @@ export class UserModule {
     address: string,
     poolId: number
   ): Promise<UserPoolStakingInfo> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<UserPoolStakingInfo>(
       `/user/${address}/staking/pool/${poolId}`
     );
@@ -332,7 +403,8 @@ export class UserModule {
     address: string,
     poolId: number
   ): Promise<NftData[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<NftData[]>(
       `/user/${address}/staking/pool/${poolId}/nfts`
     );
@@ -347,7 +419,8 @@ export class UserModule {
   public getOwnedPoolsByAddress = async (
     address: string
   ): Promise<PoolDetails[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<PoolDetails[]>(
       `/user/${address}/staking/owned-pools`
     );
@@ -364,7 +437,8 @@ export class UserModule {
   public getUserAnalyticsSummary = async (
     address: string
   ): Promise<UserAnalyticSummary> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<UserAnalyticSummary>(
       `/user/${address}/analytics/volume`
     );
@@ -383,7 +457,8 @@ export class UserModule {
     top: number,
     skip: number
   ): Promise<NftData[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
 
     const response = await this.api.fetchWithTimeout<NftData[]>(
       `/user/${address}/favorite/nfts`,
@@ -405,7 +480,8 @@ export class UserModule {
   public getUserFavoriteCollectionTickers = async (
     address: string
   ): Promise<string[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
 
     const response = await this.api.fetchWithTimeout<string[]>(
       `/user/${address}/favorite/collections`
@@ -442,7 +518,7 @@ export class UserModule {
     orderBy: string;
   }): Promise<UserStats[]> => {
     if (top && top > 35) {
-      throw new Error('Top cannot be greater than 35');
+      throw new XOXNOValidationError('Top cannot be greater than 35');
     }
 
     return await this.api.fetchWithTimeout<UserStats[]>(`/user/stats`, {
@@ -518,11 +594,12 @@ export class UserModule {
     address?: string;
   }): Promise<UserXOXNODrop[]> => {
     if (top && top > 35) {
-      throw new Error('Top cannot be greater than 35');
+      throw new XOXNOValidationError('Top cannot be greater than 35');
     }
 
     if (address) {
-      if (!isAddressValid(address)) throw new Error('Invalid address');
+      if (!isAddressValid(address))
+        throw new XOXNOValidationError('Invalid address');
     }
 
     return await this.api.fetchWithTimeout<UserXOXNODrop[]>(
@@ -549,7 +626,8 @@ export class UserModule {
   public getUserOwnerCollections = async (
     address: string
   ): Promise<IOwnerInfo> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<IOwnerInfo>(
       `/user/${address}/staking/owned-collections`
     );
@@ -564,7 +642,8 @@ export class UserModule {
   public getRoyaltiesSharesCreator = async (
     address: string
   ): Promise<IApiShareholder[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<IApiShareholder[]>(
       `/launchpad/${address}/shareholders/royalties`
     );
@@ -580,7 +659,8 @@ export class UserModule {
     address: string,
     collectionTag: string
   ): Promise<IApiShareholder[]> => {
-    if (!isAddressValid(address)) throw new Error('Invalid address');
+    if (!isAddressValid(address))
+      throw new XOXNOValidationError('Invalid address');
     const response = await this.api.fetchWithTimeout<IApiShareholder[]>(
       `/launchpad/${address}/shareholders/collection/${collectionTag}`
     );
@@ -1,5 +1,8 @@
 import { AbiRegistry } from '@multiversx/sdk-core/out/smartcontracts/typesystem/abiRegistry';
-import { XOXNOClient } from './api';
+import { Chain, XOXNOClient } from './api';
+import { MVX_API_URL, MVX_API_URL_DEV } from './const';
+import { XOXNOError, XOXNOHttpError } from './errors';
+import type { ExternalMarket } from '../types/interactions';
 
 export class SmartContractAbis {
   private static manager: AbiRegistry;
@@ -8,10 +11,14 @@ export class SmartContractAbis {
   private static market: AbiRegistry;
   private static staking: AbiRegistry;
   private static p2p: AbiRegistry;
+  // null marks a contract without a verified ABI, so it is not requested again
+  private static externalMarkets = new Map<string, AbiRegistry | null>();
 
-  public static async getMarket(): Promise<AbiRegistry> {
+  public static async getMarket(
+    api: XOXNOClient = XOXNOClient.init()
+  ): Promise<AbiRegistry> {
     if (!SmartContractAbis.market) {
-      const data = await XOXNOClient.init().fetchWithTimeout<any>(
+      const data = await api.fetchWithTimeout<any>(
         'https://media.xoxno.com/smartcontractabi/esdt-nft-marketplace.abi.json',
         {
           next: {
@@ -26,9 +33,11 @@ export class SmartContractAbis {
     return SmartContractAbis.market;
   }
 
-  public static async getManager(): Promise<AbiRegistry> {
+  public static async getManager(
+    api: XOXNOClient = XOXNOClient.init()
+  ): Promise<AbiRegistry> {
     if (!SmartContractAbis.manager) {
-      const data = await XOXNOClient.init().fetchWithTimeout<any>(
+      const data = await api.fetchWithTimeout<any>(
         'https://media.xoxno.com/smartcontractabi/manage.json',
         {
           next: {
@@ -43,9 +52,11 @@ export class SmartContractAbis {
     return SmartContractAbis.manager;
   }
 
-  public static async getMinter(): Promise<AbiRegistry> {
+  public static async getMinter(
+    api: XOXNOClient = XOXNOClient.init()
+  ): Promise<AbiRegistry> {
     if (!SmartContractAbis.minter) {
-      const data = await XOXNOClient.init().fetchWithTimeout<any>(
+      const data = await api.fetchWithTimeout<any>(
         'https://media.xoxno.com/smartcontractabi/minter.json',
         {
           next: {
@@ -60,9 +71,11 @@ export class SmartContractAbis {
     return SmartContractAbis.minter;
   }
 
-  public static async getStaking(): Promise<AbiRegistry> {
+  public static async getStaking(
+    api: XOXNOClient = XOXNOClient.init()
+  ): Promise<AbiRegistry> {
     if (!SmartContractAbis.staking) {
-      const data = await XOXNOClient.init().fetchWithTimeout<any>(
+      const data = await api.fetchWithTimeout<any>(
         'https://media.xoxno.com/smartcontractabi/staking-nfts.abi.json',
         {
           next: {
@@ -77,9 +90,11 @@ export class SmartContractAbis {
     return SmartContractAbis.staking;
   }
 
-  public static async getExchange(): Promise<AbiRegistry> {
+  public static async getExchange(
+    api: XOXNOClient = XOXNOClient.init()
+  ): Promise<AbiRegistry> {
     if (!SmartContractAbis.exchange) {
-      const data = await XOXNOClient.init().fetchWithTimeout<any>(
+      const data = await api.fetchWithTimeout<any>(
         'https://media.xoxno.com/smartcontractabi/rs-exchange.abi.json',
         {
           next: {
@@ -94,9 +109,11 @@ export class SmartContractAbis {
     return SmartContractAbis.exchange;
   }
 
-  public static async getP2P(): Promise<AbiRegistry> {
+  public static async getP2P(
+    api: XOXNOClient = XOXNOClient.init()
+  ): Promise<AbiRegistry> {
     if (!SmartContractAbis.p2p) {
-      const data = await XOXNOClient.init().fetchWithTimeout<any>(
+      const data = await api.fetchWithTimeout<any>(
         'https://media.xoxno.com/smartcontractabi/p2p.abi.json',
         {
           next: {
@@ -111,4 +128,49 @@ export class SmartContractAbis {
 
     return SmartContractAbis.p2p;
   }
+
+  /**
+   * Gets the ABI of Frame It, DeadRare or Krogan from the source code verified on the MultiversX explorer
+   * of the client chain, so their calls are encoded with the endpoints of the deployed contracts.
+   * A contract without a verified ABI is remembered and not requested again.
+   * @throws {XOXNOError} When the contract has no verified source code.
+   */
+  public static async getExternalMarket(
+    market: ExternalMarket,
+    api: XOXNOClient = XOXNOClient.init()
+  ): Promise<AbiRegistry> {
+    const address = api.config[`${market}_SC`];
+    const key = `${api.chain}:${address}`;
+    let abiRegistry = SmartContractAbis.externalMarkets.get(key);
+    if (abiRegistry === undefined) {
+      const apiUrl = api.chain === Chain.DEVNET ? MVX_API_URL_DEV : MVX_API_URL;
+      const data = await api
+        .fetchWithTimeout<{ source?: { abi?: any } }>(
+          `${apiUrl}/accounts/${address}/verification`,
+          {
+            next: {
+              tags: ['getExternalMarket'],
+            },
+          }
+        )
+        .catch((error) => {
+          // The explorer answers 404 for a contract without verified source code
+          if (error instanceof XOXNOHttpError && error.isNotFound) {
+            return { source: undefined };
+          }
+          throw error;
+        });
+      abiRegistry = data.source?.abi
+        ? AbiRegistry.create(data.source.abi)
+        : null;
+      SmartContractAbis.externalMarkets.set(key, abiRegistry);
+    }
+    if (!abiRegistry) {
+      throw new XOXNOError(
+        `The contract of ${market} has no verified ABI: ${address}`
+      );
+    }
+
+    return abiRegistry;
+  }
 }
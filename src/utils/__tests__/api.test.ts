@@ -0,0 +1,159 @@
+import { Chain, XOXNOClient } from '../api';
+import { API_URL, API_URL_DEV, XOXNO_SC, XOXNO_SC_DEV } from '../const';
+import {
+  XOXNOHttpError,
+  XOXNONetworkError,
+  XOXNOTimeoutError,
+} from '../errors';
+
+describe('XOXNOClient', () => {
+  it('should create independent clients per chain', () => {
+    const mainnet = new XOXNOClient();
+    const devnet = new XOXNOClient({ chain: Chain.DEVNET });
+    expect(mainnet.apiUrl).toEqual(API_URL);
+    expect(mainnet.config.XO_SC).toEqual(XOXNO_SC);
+    expect(devnet.apiUrl).toEqual(API_URL_DEV);
+    expect(devnet.chain).toEqual(Chain.DEVNET);
+    expect(devnet.config.XO_SC).toEqual(XOXNO_SC_DEV);
+  });
+
+  it('should keep a custom API url on devnet', () => {
+    const devnet = new XOXNOClient({
+      chain: Chain.DEVNET,
+      apiUrl: 'http://localhost:3000',
+    });
+    expect(devnet.apiUrl).toEqual('http://localhost:3000');
+  });
+
+  it('should replace the default client only when options are provided', () => {
+    const first = XOXNOClient.init();
+    expect(XOXNOClient.init()).toBe(first);
+    const devnet = XOXNOClient.init({ chain: Chain.DEVNET });
+    expect(devnet).not.toBe(first);
+    expect(XOXNOClient.init()).toBe(devnet);
+    XOXNOClient.init({});
+  });
+});
+
+const getError = (promise: Promise<unknown>): Promise<any> =>
+  promise.then(
+    () => {
+      throw new Error('Expected the request to fail');
+    },
+    (error) => error
+  );
+
+describe('XOXNOClient.fetchWithTimeout', () => {
+  const client = new XOXNOClient();
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should throw an XOXNOHttpError with the JSON body', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ message: 'Collection not found' }), {
+        status: 404,
+      })
+    );
+    const error = await getError(
+      client.fetchWithTimeout('/collection/NONE-000000/profile')
+    );
+    expect(error).toBeInstanceOf(XOXNOHttpError);
+    expect(error.status).toEqual(404);
+    expect(error.isNotFound).toEqual(true);
+    expect(error.path).toEqual('/collection/NONE-000000/profile');
+    expect(error.message).toEqual('Collection not found');
+  });
+
+  it('should throw an XOXNOHttpError when the body is not JSON', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('Too Many Requests', { status: 429 })
+    );
+    const error = await getError(client.fetchWithTimeout('/tokens'));
+    expect(error).toBeInstanceOf(XOXNOHttpError);
+    expect(error.isRateLimited).toEqual(true);
+    expect(error.body).toEqual('Too Many Requests');
+  });
+
+  it('should throw an XOXNOTimeoutError when the request is aborted', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(new DOMException('aborted', 'AbortError'))
+          );
+        })
+    );
+    const error = await getError(client.fetchWithTimeout('/tokens', {}, 10));
+    expect(error).toBeInstanceOf(XOXNOTimeoutError);
+    expect(error.timeout).toEqual(10);
+  });
+
+  it('should throw an XOXNONetworkError when the API is unreachable', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const error = await getError(client.fetchWithTimeout('/tokens'));
+    expect(error).toBeInstanceOf(XOXNONetworkError);
+  });
+});
+
+describe('XOXNOClient retry policy', () => {
+  const client = new XOXNOClient({
+    retry: { maxAttempts: 3, baseDelay: 1, jitter: 0 },
+  });
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should retry transient failures until the request succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true })));
+    const result = await client.fetchWithTimeout<{ ok: boolean }>('/tokens');
+    expect(result.ok).toEqual(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop after the maximum number of attempts', async () => {
+    fetchMock.mockImplementation(async () => new Response('', { status: 502 }));
+    const error = await getError(client.fetchWithTimeout('/tokens'));
+    expect(error).toBeInstanceOf(XOXNOHttpError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non retryable status codes', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 404 }));
+    await getError(client.fetchWithTimeout('/tokens'));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry POST requests by default', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 503 }));
+    await getError(
+      client.fetchWithTimeout('/user/network-account', { method: 'POST' })
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor the Retry-After header', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response('', { status: 429, headers: { 'Retry-After': '0' } })
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify([])));
+    await client.fetchWithTimeout('/tokens');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
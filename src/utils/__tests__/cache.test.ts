@@ -0,0 +1,99 @@
+import { XOXNOClient } from '../api';
+import { MemoryCache } from '../cache';
+
+describe('MemoryCache', () => {
+  it('should expire entries after their TTL', async () => {
+    const cache = new MemoryCache();
+    cache.set('a', 1, { ttl: 5 });
+    expect(cache.get('a')).toEqual(1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should not share the cached values with the callers', () => {
+    const cache = new MemoryCache();
+    const value = { owners: ['a'] };
+    cache.set('a', value, { ttl: 1000 });
+    value.owners.push('b');
+    cache.get<typeof value>('a')?.owners.push('c');
+    expect(cache.get('a')).toEqual({ owners: ['a'] });
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new MemoryCache(2);
+    cache.set('a', 1, { ttl: 1000 });
+    cache.set('b', 2, { ttl: 1000 });
+    cache.get('a');
+    cache.set('c', 3, { ttl: 1000 });
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual(1);
+    expect(cache.get('c')).toEqual(3);
+  });
+
+  it('should invalidate entries by tag', () => {
+    const cache = new MemoryCache();
+    cache.set('a', 1, { ttl: 1000, tags: ['getCollectionProfile'] });
+    cache.set('b', 2, { ttl: 1000, tags: ['getTokensUsdPrice'] });
+    cache.invalidateTags(['getCollectionProfile']);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toEqual(2);
+  });
+});
+
+describe('XOXNOClient cache', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(
+        async () => new Response(JSON.stringify({ collection: 'A' }))
+      );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const profileOptions = {
+    next: { tags: ['getCollectionProfile'], revalidate: 30 },
+  };
+
+  it('should serve cached responses until the tag is invalidated', async () => {
+    const client = new XOXNOClient({ cache: true });
+    await client.fetchWithTimeout('/collection/A/profile', profileOptions);
+    await client.fetchWithTimeout('/collection/A/profile', profileOptions);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await client.invalidateCache('getCollectionProfile');
+    await client.fetchWithTimeout('/collection/A/profile', profileOptions);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache requests without a TTL or when disabled', async () => {
+    const cached = new XOXNOClient({ cache: true });
+    await cached.fetchWithTimeout('/nft/query');
+    await cached.fetchWithTimeout('/nft/query');
+
+    const uncached = new XOXNOClient();
+    await uncached.fetchWithTimeout('/collection/A/profile', profileOptions);
+    await uncached.fetchWithTimeout('/collection/A/profile', profileOptions);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should apply the TTL overrides per tag', async () => {
+    const client = new XOXNOClient({
+      cache: true,
+      cacheTtl: { getCollectionProfile: 0, getTokensUsdPrice: 60 },
+    });
+    await client.fetchWithTimeout('/collection/A/profile', profileOptions);
+    await client.fetchWithTimeout('/collection/A/profile', profileOptions);
+    await client.fetchWithTimeout('/tokens/usd-price', {
+      next: { tags: ['getTokensUsdPrice'] },
+    });
+    await client.fetchWithTimeout('/tokens/usd-price', {
+      next: { tags: ['getTokensUsdPrice'] },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
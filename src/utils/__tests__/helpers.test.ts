@@ -0,0 +1,50 @@
+import { XOXNOValidationError } from '../errors';
+import { toTokenTransfer } from '../helpers';
+
+describe('toTokenTransfer', () => {
+  it('should shift EGLD and fungible tokens by their decimals', () => {
+    expect(
+      toTokenTransfer({ collection: 'EGLD', nonce: 0, amount: 1.5 }).toString()
+    ).toEqual('1500000000000000000');
+    expect(
+      toTokenTransfer({
+        collection: 'USDC-c76f1f',
+        nonce: 0,
+        amount: 2,
+        decimals: 6,
+      }).toString()
+    ).toEqual('2000000');
+  });
+
+  it('should keep the quantity of NFTs and SFTs', () => {
+    const transfer = toTokenTransfer({
+      collection: 'EAPES-8f3c1f',
+      nonce: 10,
+      amount: 3,
+    });
+    expect(transfer.tokenIdentifier).toEqual('EAPES-8f3c1f');
+    expect(transfer.nonce).toEqual(10);
+    expect(transfer.toString()).toEqual('3');
+  });
+
+  it('should use the EGLD-000000 identifier in multi transfers', () => {
+    const transfer = toTokenTransfer(
+      { collection: 'EGLD', nonce: 0, amount: 1 },
+      true
+    );
+    expect(transfer.tokenIdentifier).toEqual('EGLD-000000');
+    expect(transfer.toString()).toEqual('1000000000000000000');
+  });
+
+  it('should reject fungible tokens with unknown decimals', () => {
+    expect(() =>
+      toTokenTransfer({ collection: 'USDC-c76f1f', nonce: 0, amount: 2 })
+    ).toThrow('The decimals of USDC-c76f1f are unknown');
+  });
+
+  it('should reject missing amounts', () => {
+    expect(() => toTokenTransfer({ collection: 'EGLD', nonce: 0 })).toThrow(
+      XOXNOValidationError
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { XOXNOAbortError } from '../errors';
+import { PageArgs, paginate } from '../paginate';
+
+const TOTAL = 10;
+
+const fetchPage = jest.fn(async (args: PageArgs) => {
+  const skip = args.skip ?? 0;
+  const top = args.top ?? 35;
+  const items = Array.from(
+    { length: Math.max(0, Math.min(top, TOTAL - skip)) },
+    (_, i) => skip + i
+  );
+  return {
+    items,
+    next: { ...args, skip: skip + top },
+    hasMore: skip + top < TOTAL,
+  };
+});
+
+const collect = async <T>(iterator: AsyncGenerator<T>) => {
+  const items: T[] = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+};
+
+describe('paginate', () => {
+  beforeEach(() => {
+    fetchPage.mockClear();
+  });
+
+  it('should iterate until there are no more results', async () => {
+    const items = await collect(paginate(fetchPage, { top: 3 }, 35));
+    expect(items).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(fetchPage).toHaveBeenCalledTimes(4);
+  });
+
+  it('should cap the page size to the endpoint maximum', async () => {
+    await collect(paginate(fetchPage, { top: 100 }, 4));
+    expect(fetchPage.mock.calls[0][0]).toEqual({ top: 4, skip: 0 });
+  });
+
+  it('should stop after the overall limit', async () => {
+    const items = await collect(
+      paginate(fetchPage, { top: 4 }, 35, { limit: 6 })
+    );
+    expect(items).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls[1][0]).toEqual({ top: 2, skip: 4 });
+  });
+
+  it('should throw once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const iterator = paginate(fetchPage, { top: 2 }, 35, {
+      signal: controller.signal,
+    });
+    await iterator.next();
+    controller.abort();
+    await expect(iterator.next()).rejects.toBeInstanceOf(XOXNOAbortError);
+  });
+});
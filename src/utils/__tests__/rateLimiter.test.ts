@@ -0,0 +1,57 @@
+import { RateLimiter } from '../rateLimiter';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('RateLimiter', () => {
+  it('should never exceed the concurrency cap', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    let running = 0;
+    let maxRunning = 0;
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.schedule(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await sleep(5);
+          running--;
+        })
+      )
+    );
+    expect(maxRunning).toEqual(2);
+    expect(limiter.running).toEqual(0);
+  });
+
+  it('should start queued tasks in order', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const order: number[] = [];
+    await Promise.all(
+      [3, 1, 2].map((delay, index) =>
+        limiter.schedule(async () => {
+          await sleep(delay);
+          order.push(index);
+        })
+      )
+    );
+    expect(order).toEqual([0, 1, 2]);
+  });
+
+  it('should throttle requests to the configured rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 });
+    const start = Date.now();
+    await Promise.all(
+      Array.from({ length: 4 }, () => limiter.schedule(async () => true))
+    );
+    // First request uses the burst token, the other three wait 50ms each
+    expect(Date.now() - start).toBeGreaterThanOrEqual(140);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    await expect(
+      limiter.schedule(async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    await expect(limiter.schedule(async () => 'ok')).resolves.toEqual('ok');
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  parseRetryAfter,
+  withRetry,
+} from '../retry';
+import { XOXNOHttpError } from '../errors';
+
+describe('Retry helpers', () => {
+  it('should parse Retry-After seconds and dates', () => {
+    expect(parseRetryAfter('2')).toEqual(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('not a date')).toBeUndefined();
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    expect(parseRetryAfter(date)).toBeGreaterThan(50_000);
+  });
+
+  it('should grow the delay exponentially up to the max delay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+    expect(getRetryDelay(policy, 1)).toEqual(500);
+    expect(getRetryDelay(policy, 2)).toEqual(1000);
+    expect(getRetryDelay(policy, 3)).toEqual(2000);
+    expect(getRetryDelay(policy, 10)).toEqual(policy.maxDelay);
+  });
+
+  it('should keep the jitter within the configured ratio', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0.5 };
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(policy, 1);
+      expect(delay).toBeGreaterThanOrEqual(250);
+      expect(delay).toBeLessThanOrEqual(750);
+    }
+  });
+
+  it('should prefer the Retry-After delay when enabled', () => {
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, 3000)).toEqual(3000);
+    expect(
+      getRetryDelay(
+        { ...DEFAULT_RETRY_POLICY, respectRetryAfter: false, jitter: 0 },
+        1,
+        3000
+      )
+    ).toEqual(500);
+  });
+
+  it('should cap the Retry-After delay to the max delay', () => {
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, 60_000)).toEqual(10_000);
+  });
+
+  it('should give up when the Retry-After delay exceeds the max delay', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValue(new XOXNOHttpError(429, '/ping', {}, 60_000));
+    await expect(
+      withRetry(fn, { ...DEFAULT_RETRY_POLICY, maxAttempts: 3 })
+    ).rejects.toThrow(XOXNOHttpError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
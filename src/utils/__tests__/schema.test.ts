@@ -0,0 +1,107 @@
+import { XOXNOClient } from '../api';
+import { XOXNOSchemaError } from '../errors';
+import { ValidationMode, schema, validateSchema } from '../schema';
+import { CollectionModule } from '../../collection';
+
+const getError = async (promise: Promise<unknown>): Promise<any> =>
+  promise.then(
+    () => undefined,
+    (error) => error
+  );
+
+describe('validateSchema', () => {
+  const ownerSchema = schema.object({
+    address: schema.string(),
+    tags: schema.optional(schema.array(schema.string())),
+  });
+
+  it('should report the path of every invalid value', () => {
+    expect(
+      validateSchema(
+        [{ address: 'erd1' }, { address: 1, tags: ['a', null] }],
+        schema.array(ownerSchema),
+        'owners'
+      )
+    ).toEqual([
+      { path: 'owners[1].address', expected: 'string', received: 'number' },
+      { path: 'owners[1].tags[1]', expected: 'string', received: 'null' },
+    ]);
+  });
+
+  it('should accept missing optional values', () => {
+    expect(validateSchema({ address: 'erd1' }, ownerSchema)).toEqual([]);
+  });
+
+  it('should accept any member of a union', () => {
+    const valueSchema = schema.union(schema.string(), schema.number());
+    expect(validateSchema(['Blue', 7], schema.array(valueSchema))).toEqual([]);
+    expect(validateSchema(true, valueSchema, 'value')).toEqual([
+      { path: 'value', expected: 'string | number', received: 'boolean' },
+    ]);
+  });
+});
+
+describe('XOXNOClient validation', () => {
+  let fetchMock: jest.SpyInstance;
+  const profile = { dataType: 'collectionProfile', collection: 42 };
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => new Response(JSON.stringify(profile)));
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should not validate by default', async () => {
+    const collection = new CollectionModule(new XOXNOClient());
+    await expect(
+      collection.getCollectionProfile('MONKEY-ac9bdf')
+    ).resolves.toEqual(profile);
+  });
+
+  it('should warn and return the response in warn mode', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const collection = new CollectionModule(
+      new XOXNOClient({ validation: ValidationMode.Warn })
+    );
+    await expect(
+      collection.getCollectionProfile('MONKEY-ac9bdf')
+    ).resolves.toEqual(profile);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('getCollectionProfile.collection')
+    );
+    warn.mockRestore();
+  });
+
+  it('should report the mismatches to onSchemaIssue in warn mode', async () => {
+    const onSchemaIssue = jest.fn();
+    const collection = new CollectionModule(
+      new XOXNOClient({ validation: ValidationMode.Warn, onSchemaIssue })
+    );
+    await expect(
+      collection.getCollectionProfile('MONKEY-ac9bdf')
+    ).resolves.toEqual(profile);
+    expect(onSchemaIssue).toHaveBeenCalledWith(expect.any(XOXNOSchemaError));
+    expect(onSchemaIssue.mock.calls[0][0].issues).toContainEqual(
+      expect.objectContaining({ path: 'getCollectionProfile.collection' })
+    );
+  });
+
+  it('should throw an XOXNOSchemaError in strict mode', async () => {
+    const collection = new CollectionModule(
+      new XOXNOClient({ validation: ValidationMode.Strict })
+    );
+    const error = await getError(
+      collection.getCollectionProfile('MONKEY-ac9bdf')
+    );
+    expect(error).toBeInstanceOf(XOXNOSchemaError);
+    expect(error.issues[0]).toEqual({
+      path: 'getCollectionProfile.collection',
+      expected: 'string',
+      received: 'number',
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { XOXNOValidationError } from '../errors';
+import { toTokenTransfer } from '../helpers';
+import { TokenAmount } from '../tokenAmount';
+
+describe('TokenAmount', () => {
+  it('should keep the exact amount of 6 decimals tokens', () => {
+    const price = TokenAmount.fromAmount('USDC-c76f1f', '0.1', 6).plus(
+      TokenAmount.fromAmount('USDC-c76f1f', '0.2', 6)
+    );
+    expect(price.toBigInteger()).toEqual('300000');
+    expect(price.toDenominated()).toEqual('0.3');
+    expect(price.toString()).toEqual('0.3 USDC-c76f1f');
+  });
+
+  it('should keep the precision of large amounts', () => {
+    const amount = TokenAmount.fromBigInteger(
+      'EGLD',
+      BigInt('123456789012345678901234567')
+    );
+    expect(amount.multipliedBy(3).toBigInteger()).toEqual(
+      '370370367037037036703703701'
+    );
+    expect(amount.toDenominated()).toEqual('123456789.012345678901234567');
+  });
+
+  it('should reject amounts with more decimals than the token', () => {
+    expect(() => TokenAmount.fromAmount('USDC-c76f1f', '0.0000001', 6)).toThrow(
+      XOXNOValidationError
+    );
+    expect(() => TokenAmount.egld(-1)).toThrow(XOXNOValidationError);
+    expect(() =>
+      TokenAmount.egld(1).plus(TokenAmount.fromAmount('USDC-c76f1f', 1, 6))
+    ).toThrow('Cannot add USDC-c76f1f to EGLD');
+  });
+
+  it('should convert to the token transfers of the builders', () => {
+    expect(toTokenTransfer(TokenAmount.egld('1.5')).isEgld()).toEqual(true);
+    const multi = toTokenTransfer(TokenAmount.egld('1.5'), true);
+    expect(multi.tokenIdentifier).toEqual('EGLD-000000');
+    expect(multi.toString()).toEqual('1500000000000000000');
+    const meta = toTokenTransfer(
+      TokenAmount.fromAmount('LKMEX-aab910', '2.5', 18, 7)
+    );
+    expect(meta.nonce).toEqual(7);
+    expect(meta.toString()).toEqual('2500000000000000000');
+    expect(() =>
+      toTokenTransfer(TokenAmount.fromAmount('USDC-c76f1f', 0, 6))
+    ).toThrow(XOXNOValidationError);
+  });
+});
@@ -0,0 +1,88 @@
+import { XOXNOClient } from '../api';
+import { XOXNOValidationError } from '../errors';
+import { TokenRegistry } from '../tokenRegistry';
+
+const asset = (identifier: string, decimals: number) => ({
+  identifier,
+  name: identifier.split('-')[0],
+  ticker: identifier.split('-')[0],
+  decimals,
+  svgUrl: `https://tools.multiversx.com/assets-cdn/tokens/${identifier}/icon.svg`,
+  pngUrl: `https://tools.multiversx.com/assets-cdn/tokens/${identifier}/icon.png`,
+});
+
+describe('TokenRegistry', () => {
+  let fetchMock: jest.SpyInstance;
+  let tokens: TokenRegistry;
+
+  beforeEach(() => {
+    tokens = new TokenRegistry(new XOXNOClient());
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async (input) => {
+        const url = new URL(input.toString());
+        if (url.pathname.endsWith('/tokens/usd-price')) {
+          return new Response(JSON.stringify({ EGLD: 25.5, 'USDC-c76f1f': 1 }));
+        }
+        const identifier = url.searchParams.get('identifier');
+        return new Response(
+          JSON.stringify(
+            identifier === 'XMEX-fda355'
+              ? { 'XMEX-fda355': asset('XMEX-fda355', 18) }
+              : identifier
+                ? {}
+                : { 'USDC-c76f1f': asset('USDC-c76f1f', 6) }
+          )
+        );
+      });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should fetch the token list once', async () => {
+    expect(await tokens.getDecimals('USDC-c76f1f')).toEqual(6);
+    expect(await tokens.getDecimals('USDC-c76f1f')).toEqual(6);
+    expect(tokens.getCachedDecimals('USDC-c76f1f')).toEqual(6);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should know EGLD without any request', async () => {
+    expect(await tokens.getDecimals('EGLD')).toEqual(18);
+    expect(tokens.getCachedDecimals('EGLD')).toEqual(18);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fetch the tokens missing from the list by identifier', async () => {
+    expect(await tokens.getDecimals('XMEX-fda355')).toEqual(18);
+    const url = new URL(fetchMock.mock.calls[1][0]);
+    expect(url.searchParams.get('identifier')).toEqual('XMEX-fda355');
+
+    await expect(tokens.getDecimals('UNKNOWN-123456')).rejects.toThrow(
+      XOXNOValidationError
+    );
+  });
+
+  it('should resolve the logos and the USD price', async () => {
+    const token = await tokens.getToken('USDC-c76f1f');
+    expect(token?.pngUrl).toContain('USDC-c76f1f/icon.png');
+    expect(token?.usdPrice).toEqual(1);
+    expect(await tokens.getUsdPrice('EGLD')).toEqual(25.5);
+    expect(await tokens.getToken('UNKNOWN-123456')).toBeUndefined();
+  });
+
+  it('should create amounts with the decimals of the token', async () => {
+    const amount = await tokens.toTokenAmount('USDC-c76f1f', '12.5');
+    expect(amount.toBigInteger()).toEqual('12500000');
+    expect(amount.decimals).toEqual(6);
+  });
+
+  it('should share the registry of a client', () => {
+    const api = new XOXNOClient();
+    expect(TokenRegistry.for(api)).toBe(TokenRegistry.for(api));
+    expect(TokenRegistry.for(api)).not.toBe(
+      TokenRegistry.for(new XOXNOClient())
+    );
+  });
+});
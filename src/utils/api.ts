@@ -13,16 +13,54 @@ import {
   XOXNO_SC,
   XOXNO_SC_DEV,
 } from './const';
+import {
+  XOXNOError,
+  XOXNOHttpError,
+  XOXNONetworkError,
+  XOXNOSchemaError,
+  XOXNOTimeoutError,
+} from './errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  parseRetryAfter,
+  withRetry,
+} from './retry';
+import { RateLimitOptions, RateLimiter } from './rateLimiter';
+import { CacheStore, MemoryCache } from './cache';
+import { Schema, ValidationMode, validateSchema } from './schema';
 import type { IChainID } from '@multiversx/sdk-core/out/interface';
 export enum Chain {
   MAINNET = '1',
   DEVNET = 'D',
 }
+export type XOXNOClientOptions = Partial<{
+  apiUrl: string;
+  apiKey: string;
+  chain: Chain;
+  retry: Partial<RetryPolicy>;
+  rateLimit: Partial<RateLimitOptions>;
+  /** Enables the SDK cache, true uses an in-memory LRU cache */
+  cache: CacheStore | boolean;
+  /** TTL overrides in seconds keyed by the request tag, 0 disables caching for the tag */
+  cacheTtl: Record<string, number>;
+  /** Runtime validation of the core API responses, off by default */
+  validation: ValidationMode;
+  /** Receives the mismatches found in warn mode, logs them with console.warn by default */
+  onSchemaIssue: (error: XOXNOSchemaError) => void;
+}>;
+
 export class XOXNOClient {
   private static instance: XOXNOClient;
   public apiUrl: string;
   private apiKey: string;
   public chain: IChainID;
+  public retry: RetryPolicy;
+  public limiter: RateLimiter;
+  public cache?: CacheStore;
+  private cacheTtl: Record<string, number>;
+  public validation: ValidationMode;
+  private onSchemaIssue: (error: XOXNOSchemaError) => void;
   public config: {
     XO_SC: string;
     FM_SC: string;
@@ -33,14 +71,38 @@ export class XOXNOClient {
     P2P_SC: string;
   };
 
-  private constructor(
-    apiUrl: string = API_URL,
+  /**
+   * Creates an independent client, every module accepts one in its constructor.
+   * When no apiUrl is provided it defaults to the public API of the selected chain.
+   * Retries are disabled unless a retry policy with more than one attempt is provided.
+   * Requests are not throttled unless a rate limit is provided, the limit is shared by every module using the client.
+   * GET responses are cached only when a cache is provided, using the revalidate hint of each request as TTL.
+   * Responses of the core types are checked against their schema only when a validation mode is provided.
+   *
+   * @example
+   * const devnet = new XOXNOClient({ chain: Chain.DEVNET });
+   * const collection = new CollectionModule(devnet);
+   */
+  public constructor({
+    chain = Chain.MAINNET,
+    apiUrl = chain === Chain.DEVNET ? API_URL_DEV : API_URL,
     apiKey = '',
-    chain: Chain = Chain.MAINNET
-  ) {
+    retry,
+    rateLimit,
+    cache = false,
+    cacheTtl = {},
+    validation = ValidationMode.Off,
+    onSchemaIssue = (error) => console.warn(error.message),
+  }: XOXNOClientOptions = {}) {
     this.apiUrl = apiUrl;
     this.apiKey = apiKey;
     this.chain = chain;
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...retry };
+    this.limiter = new RateLimiter(rateLimit);
+    this.cache = cache === true ? new MemoryCache() : cache || undefined;
+    this.cacheTtl = cacheTtl;
+    this.validation = validation;
+    this.onSchemaIssue = onSchemaIssue;
     this.config =
       chain === Chain.MAINNET
         ? {
@@ -63,20 +125,13 @@ export class XOXNOClient {
           };
   }
 
-  public static init({
-    apiUrl = API_URL,
-    apiKey = '',
-    chain = Chain.MAINNET,
-  }: Partial<{
-    apiUrl?: string;
-    apiKey?: string;
-    chain?: Chain;
-  }> = {}): XOXNOClient {
-    if (!XOXNOClient.instance) {
-      if (chain == Chain.DEVNET) {
-        XOXNOClient.instance = new XOXNOClient(API_URL_DEV, apiKey, chain);
-      }
-      XOXNOClient.instance = new XOXNOClient(apiUrl, apiKey, chain);
+  /**
+   * Returns the default client used by modules created without an explicit client.
+   * Calling it with options replaces the default client with a new one.
+   */
+  public static init(options?: XOXNOClientOptions): XOXNOClient {
+    if (!XOXNOClient.instance || options) {
+      XOXNOClient.instance = new XOXNOClient(options);
     }
     return XOXNOClient.instance;
   }
@@ -109,18 +164,123 @@ export class XOXNOClient {
         : ''
     }`;
 
-    const controller = new AbortController();
-    setTimeout(() => controller.abort(), timeout);
-    const res = await fetch(url, {
-      ...options,
-      ...(options?.next && options.next.revalidate
-        ? {}
-        : { cache: 'no-store' }),
-      signal: controller.signal,
-      ...(Object.keys(headers).length ? { headers } : {}),
-      method: (options.method as any) ?? 'GET',
-    });
-    if (!res.ok) throw new Error((await res.json()).message.toString());
-    return res.json() as T;
+    const method = ((options.method as string) ?? 'GET').toUpperCase();
+    const ttl = this.getCacheTtl(method, options);
+    if (this.cache && ttl > 0) {
+      const cached = await this.cache.get<T>(url);
+      if (cached !== undefined) return cached;
+    }
+    const response = await withRetry(
+      () =>
+        this.limiter.schedule(() =>
+          this.request<T>(url, path, { ...options, headers }, timeout)
+        ),
+      this.retry.methods.includes(method)
+        ? this.retry
+        : { ...this.retry, maxAttempts: 1 }
+    );
+    if (this.cache && ttl > 0) {
+      await this.cache.set(url, response, {
+        ttl,
+        tags: options.next?.tags ?? [],
+      });
+    }
+    return response;
+  };
+
+  /**
+   * Removes every cached response tagged with one of the given tags
+   * @param tags - The request tags, e.g. 'getCollectionProfile'
+   */
+  public invalidateCache = async (...tags: string[]): Promise<void> => {
+    await this.cache?.invalidateTags(tags);
+  };
+
+  /**
+   * Removes every cached response
+   */
+  public clearCache = async (): Promise<void> => {
+    await this.cache?.clear();
   };
+
+  /**
+   * Checks a response against its schema according to the validation mode of the client
+   * @param value - The response to check
+   * @param valueSchema - The expected schema
+   * @param name - The name of the response, used as root of the reported paths
+   * @returns The response untouched
+   * @throws {XOXNOSchemaError} In strict mode when the response does not match the schema
+   */
+  public validate = <T>(value: T, valueSchema: Schema<T>, name: string): T => {
+    if (this.validation === ValidationMode.Off) return value;
+    const issues = validateSchema(value, valueSchema, name);
+    if (!issues.length) return value;
+    const error = new XOXNOSchemaError(name, issues);
+    if (this.validation === ValidationMode.Strict) throw error;
+    this.onSchemaIssue(error);
+    return value;
+  };
+
+  private getCacheTtl(method: string, options: Record<string, any>): number {
+    if (!this.cache || method !== 'GET') return 0;
+    const tags: string[] = options.next?.tags ?? [];
+    const override = tags.find((tag) => tag in this.cacheTtl);
+    const seconds =
+      override !== undefined
+        ? this.cacheTtl[override]
+        : options.next?.revalidate ?? 0;
+    return seconds * 1000;
+  }
+
+  private async request<T>(
+    url: string,
+    path: string,
+    options: Record<string, any>,
+    timeout: number
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    try {
+      const res = await fetch(url, {
+        ...options,
+        ...(options?.next && options.next.revalidate
+          ? {}
+          : { cache: 'no-store' }),
+        signal: controller.signal,
+        ...(Object.keys(options.headers).length
+          ? { headers: options.headers }
+          : {}),
+        method: (options.method as any) ?? 'GET',
+      });
+      if (!res.ok) {
+        throw new XOXNOHttpError(
+          res.status,
+          path,
+          await readBody(res),
+          parseRetryAfter(res.headers.get('Retry-After'))
+        );
+      }
+      return (await res.json()) as T;
+    } catch (error) {
+      if (error instanceof XOXNOError) throw error;
+      if (controller.signal.aborted) {
+        throw new XOXNOTimeoutError(path, timeout);
+      }
+      if (error instanceof TypeError) {
+        throw new XOXNONetworkError(path, error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 }
+
+const readBody = async (res: Response): Promise<unknown> => {
+  const text = await res.text().catch(() => '');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
@@ -0,0 +1,79 @@
+export interface CacheSetOptions {
+  /** Time to live in ms */
+  ttl: number;
+  /** Tags used to invalidate the entry, the same tags passed to Next.js */
+  tags?: string[];
+}
+
+/**
+ * Storage used by XOXNOClient to cache GET responses.
+ * Implement it to plug a shared store such as Redis, every method may be async.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined> | T | undefined;
+  set<T>(key: string, value: T, options: CacheSetOptions): Promise<void> | void;
+  invalidateTags(tags: string[]): Promise<void> | void;
+  clear(): Promise<void> | void;
+}
+
+type CacheEntry = {
+  value: unknown;
+  expiresAt: number;
+  tags: string[];
+};
+
+/**
+ * In-memory LRU cache, the least recently read entry is evicted once maxEntries is reached.
+ * The values are cloned when stored and read, so a caller mutating a response does not alter the cached one.
+ *
+ * @example
+ * const client = new XOXNOClient({ cache: new MemoryCache(1000) });
+ */
+export class MemoryCache implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    // Re-insert to mark the entry as the most recently used
+    this.entries.set(key, entry);
+    return structuredClone(entry.value) as T;
+  }
+
+  public set<T>(key: string, value: T, { ttl, tags = [] }: CacheSetOptions) {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttl,
+      tags,
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public invalidateTags(tags: string[]) {
+    this.entries.forEach((entry, key) => {
+      if (entry.tags.some((tag) => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  public clear() {
+    this.entries.clear();
+  }
+}
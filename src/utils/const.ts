@@ -1,5 +1,9 @@
+import type { ExternalMarket } from '../types/interactions';
+
 export const API_URL = 'https://api.xoxno.com';
 export const API_URL_DEV = 'https://api-dev.xoxno.com';
+export const MVX_API_URL = 'https://api.multiversx.com';
+export const MVX_API_URL_DEV = 'https://devnet-api.multiversx.com';
 
 export const XOXNO_SC =
   'erd1qqqqqqqqqqqqqpgq6wegs2xkypfpync8mn2sa5cmpqjlvrhwz5nqgepyg8';
@@ -9,6 +13,9 @@ export const DR_SC =
   'erd1qqqqqqqqqqqqqpgqd9rvv2n378e27jcts8vfwynpx0gfl5ufz6hqhfy0u0';
 export const KG_SC =
   'erd1qqqqqqqqqqqqqpgq8xwzu82v8ex3h4ayl5lsvxqxnhecpwyvwe0sf2qj4e';
+
+/** The other marketplaces than XOXNO which the SDK can route to */
+export const EXTERNAL_MARKETS: ExternalMarket[] = ['FM', 'DR', 'KG'];
 export const Staking_SC =
   'erd1qqqqqqqqqqqqqpgqvpkd3g3uwludduv3797j54qt6c888wa59w2shntt6z';
 export const Manager_SC =
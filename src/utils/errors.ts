@@ -0,0 +1,186 @@
+import type { SchemaIssue } from './schema';
+
+/**
+ * Base class of every error thrown by the SDK, allows a single `instanceof` check
+ */
+export class XOXNOError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XOXNOError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when the API answers with a non 2xx status code
+ * @param status - The HTTP status code of the response
+ * @param path - The requested path or URL
+ * @param body - The parsed JSON body, or the raw text when the body is not JSON
+ * @param retryAfter - The delay in ms requested by the Retry-After header, if any
+ */
+export class XOXNOHttpError extends XOXNOError {
+  public readonly status: number;
+  public readonly path: string;
+  public readonly body: unknown;
+  public readonly retryAfter?: number;
+
+  constructor(
+    status: number,
+    path: string,
+    body: unknown,
+    retryAfter?: number
+  ) {
+    super(XOXNOHttpError.getMessage(status, body));
+    this.name = 'XOXNOHttpError';
+    this.status = status;
+    this.path = path;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+
+  public get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  public get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  public get isServerError(): boolean {
+    return this.status >= 500;
+  }
+
+  private static getMessage(status: number, body: unknown): string {
+    if (body && typeof body === 'object' && 'message' in body) {
+      return String((body as { message: unknown }).message);
+    }
+    if (typeof body === 'string' && body.length) {
+      return body;
+    }
+    return `Request failed with status ${status}`;
+  }
+}
+
+/**
+ * Thrown when a request did not complete within the configured timeout
+ */
+export class XOXNOTimeoutError extends XOXNOError {
+  public readonly path: string;
+  public readonly timeout: number;
+
+  constructor(path: string, timeout: number) {
+    super(`Request to ${path} timed out after ${timeout}ms`);
+    this.name = 'XOXNOTimeoutError';
+    this.path = path;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when the request could not reach the API at all (DNS, connection reset, offline)
+ */
+export class XOXNONetworkError extends XOXNOError {
+  public readonly path: string;
+  public readonly cause: unknown;
+
+  constructor(path: string, cause: unknown) {
+    super(
+      `Request to ${path} failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = 'XOXNONetworkError';
+    this.path = path;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through its AbortSignal
+ */
+export class XOXNOAbortError extends XOXNOError {
+  constructor(message = 'The operation was aborted') {
+    super(message);
+    this.name = 'XOXNOAbortError';
+  }
+}
+
+/**
+ * Thrown before any request is made when the provided arguments are invalid
+ */
+export class XOXNOValidationError extends XOXNOError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XOXNOValidationError';
+  }
+}
+
+/**
+ * Thrown in strict validation mode when a response does not match the expected schema
+ * @param name - The name of the validated response, usually the SDK method
+ * @param issues - Every mismatch found, each with the path of the invalid value
+ */
+export class XOXNOSchemaError extends XOXNOError {
+  public readonly issues: SchemaIssue[];
+
+  constructor(name: string, issues: SchemaIssue[]) {
+    super(
+      `Invalid response for ${name}: ${issues
+        .slice(0, 5)
+        .map(
+          ({ path, expected, received }) =>
+            `${path} expected ${expected}, received ${received}`
+        )
+        .join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`
+    );
+    this.name = 'XOXNOSchemaError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when a smart contract view query fails or returns a non successful return code
+ * @param func - The name of the queried endpoint
+ * @param contract - The bech32 address of the queried contract
+ * @param returnCode - The return code of the VM, if the query reached it
+ * @param cause - The underlying error, if any
+ */
+export class ContractQueryError extends XOXNOError {
+  public readonly func: string;
+  public readonly contract: string;
+  public readonly returnCode?: string;
+  public readonly cause: unknown;
+
+  constructor(
+    func: string,
+    contract: string,
+    message: string,
+    returnCode?: string,
+    cause?: unknown
+  ) {
+    super(`Query '${func}' to sc '${contract}' failed: ${message}`);
+    this.name = 'ContractQueryError';
+    this.func = func;
+    this.contract = contract;
+    this.returnCode = returnCode;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when a transaction could not be signed, broadcast or tracked until completion
+ * @param message - The reason of the failure
+ * @param hash - The hash of the transaction, if it was computed
+ * @param cause - The underlying error, if any
+ */
+export class XOXNOTransactionError extends XOXNOError {
+  public readonly hash?: string;
+  public readonly cause: unknown;
+
+  constructor(message: string, hash?: string, cause?: unknown) {
+    super(hash ? `Transaction ${hash} failed: ${message}` : message);
+    this.name = 'XOXNOTransactionError';
+    this.hash = hash;
+    this.cause = cause;
+  }
+}
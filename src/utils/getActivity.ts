@@ -1,9 +1,14 @@
 import { XOXNOClient } from '..';
+import { TradingActivity } from '../types/collection';
 import {
   TradincActivityArgs,
   TradingActivityResponse,
   TradingActivityQueryFilter,
 } from '../types/trading';
+import { IterateOptions, paginate } from './paginate';
+import { XOXNOValidationError } from './errors';
+import { schema } from './schema';
+import { tradingActivitySchema } from './schemas';
 
 /**
  * Fetches the trading activity of the given collections
@@ -17,7 +22,7 @@ export const getActivity = async (
   api: XOXNOClient
 ): Promise<TradingActivityResponse> => {
   if (args.top && args.top > 35) {
-    throw new Error('Top cannot be greater than 35');
+    throw new XOXNOValidationError('Top cannot be greater than 35');
   }
 
   const ranges = [];
@@ -69,6 +74,13 @@ export const getActivity = async (
       },
     }
   );
+  if (!args.select?.length) {
+    api.validate(
+      response.resources,
+      schema.array(tradingActivitySchema),
+      'getActivity.resources'
+    );
+  }
 
   return {
     ...response,
@@ -79,3 +91,30 @@ export const getActivity = async (
     empty: response.resources.length === 0,
   };
 };
+
+/**
+ * Iterates over the trading activity of the given filters, fetching the pages on demand
+ * @param args - The trading activity arguments of the first page
+ * @param api - The API client
+ * @param options - The overall item limit and the abort signal
+ * @returns - The activity entries one by one
+ */
+export const iterateActivity = (
+  args: TradincActivityArgs,
+  api: XOXNOClient,
+  options?: IterateOptions
+): AsyncGenerator<TradingActivity, void, undefined> => {
+  return paginate(
+    async (page: TradincActivityArgs) => {
+      const response = await getActivity(page, api);
+      return {
+        items: response.resources,
+        next: response.getNextPagePayload,
+        hasMore: response.hasMoreResults && !response.empty,
+      };
+    },
+    args,
+    35,
+    options
+  );
+};
@@ -1,3 +1,9 @@
+import { TokenTransfer } from '@multiversx/sdk-core/out/tokens';
+import { Payment } from '../types/interactions';
+import { XOXNOValidationError } from './errors';
+import { TokenAmount } from './tokenAmount';
+import type { TokenRegistry } from './tokenRegistry';
+
 export const nonceToHex = (nonce: number): string => {
   let nonceHex = nonce.toString(16);
   if (nonceHex.length % 2 !== 0) {
@@ -20,3 +26,52 @@ export const isAddressValid = (address: string | Buffer): boolean => {
     return false;
   }
 };
+
+/**
+ * Converts a payment to a token transfer, NFTs and SFTs use their quantity while
+ * EGLD, fungible tokens and Meta ESDTs with decimals are shifted by their decimals
+ * @param payment - The token, nonce, human readable amount and decimals, or an exact TokenAmount
+ * @param multiTransfer - Uses the EGLD-000000 identifier so EGLD can be part of a multi transfer
+ * @param tokens - Provides the cached decimals of fungible tokens paid without decimals
+ * @returns The token transfer
+ * @throws {XOXNOValidationError} When the amount is missing or not positive, or the decimals of a fungible token are unknown
+ */
+export const toTokenTransfer = (
+  payment: Payment | TokenAmount,
+  multiTransfer = false,
+  tokens?: TokenRegistry
+): TokenTransfer => {
+  if (TokenAmount.isTokenAmount(payment)) {
+    if (payment.value.isZero()) {
+      throw new XOXNOValidationError('Payment amount must be greater than 0');
+    }
+    return payment.toTokenTransfer(multiTransfer);
+  }
+  const { collection, nonce, amount, decimals } = payment;
+  if (!amount || amount <= 0) {
+    throw new XOXNOValidationError('Payment amount must be greater than 0');
+  }
+  if (collection === 'EGLD') {
+    const egld = TokenTransfer.egldFromAmount(amount);
+    return multiTransfer
+      ? new TokenTransfer({
+          tokenIdentifier: 'EGLD-000000',
+          nonce: 0,
+          amountAsBigInteger: egld.amountAsBigInteger,
+          numDecimals: 18,
+        })
+      : egld;
+  }
+  if (!nonce) {
+    const tokenDecimals = decimals ?? tokens?.getCachedDecimals(collection);
+    if (tokenDecimals === undefined) {
+      throw new XOXNOValidationError(
+        `The decimals of ${collection} are unknown, pass them with the payment`
+      );
+    }
+    return TokenTransfer.fungibleFromAmount(collection, amount, tokenDecimals);
+  }
+  return decimals
+    ? TokenTransfer.metaEsdtFromAmount(collection, nonce, amount, decimals)
+    : TokenTransfer.semiFungible(collection, nonce, amount);
+};
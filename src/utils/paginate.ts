@@ -0,0 +1,52 @@
+import { XOXNOAbortError } from './errors';
+
+export interface IterateOptions {
+  /** Stop after yielding this number of items in total */
+  limit?: number;
+  /** Stops the iteration before fetching the next page once aborted */
+  signal?: AbortSignal;
+}
+
+export interface PageArgs {
+  top?: number;
+  skip?: number;
+}
+
+export interface Page<TArgs, TItem> {
+  /** The items of the current page */
+  items: TItem[];
+  /** The payload to use to get the next page */
+  next: TArgs;
+  /** If there are more results to fetch */
+  hasMore: boolean;
+}
+
+/**
+ * Iterates over every item of a skip/top endpoint, one page at a time
+ * @param fetchPage - Fetches a single page for the given arguments
+ * @param args - The arguments of the first page
+ * @param maxTop - The maximum page size accepted by the endpoint, larger top values are capped
+ * @param options - The overall item limit and the abort signal
+ * @throws {XOXNOAbortError} If the signal is aborted before the iteration completes
+ */
+export async function* paginate<TArgs extends PageArgs, TItem>(
+  fetchPage: (args: TArgs) => Promise<Page<TArgs, TItem>>,
+  args: TArgs,
+  maxTop: number,
+  { limit = Infinity, signal }: IterateOptions = {}
+): AsyncGenerator<TItem, void, undefined> {
+  let current = args;
+  let yielded = 0;
+  while (yielded < limit) {
+    if (signal?.aborted) throw new XOXNOAbortError();
+    const top = Math.min(current.top ?? maxTop, maxTop, limit - yielded);
+    const page = await fetchPage({ ...current, top, skip: current.skip ?? 0 });
+    for (const item of page.items) {
+      if (signal?.aborted) throw new XOXNOAbortError();
+      yield item;
+      if (++yielded >= limit) return;
+    }
+    if (!page.hasMore || page.items.length === 0) return;
+    current = page.next;
+  }
+}
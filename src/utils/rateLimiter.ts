@@ -0,0 +1,118 @@
+export interface RateLimitOptions {
+  /** The number of requests allowed per second, refilled continuously */
+  requestsPerSecond: number;
+  /** The number of requests that can be sent at once after an idle period, defaults to requestsPerSecond */
+  burst: number;
+  /** The maximum number of requests in flight at the same time */
+  maxConcurrent: number;
+}
+
+/**
+ * Token bucket rate limiter with a concurrency cap.
+ * Queued tasks are started in the order they were scheduled.
+ *
+ * @example
+ * const limiter = new RateLimiter({ requestsPerSecond: 5, maxConcurrent: 2 });
+ * const data = await limiter.schedule(() => fetch(url));
+ */
+export class RateLimiter {
+  private readonly options: RateLimitOptions;
+  private readonly queue: Array<() => void> = [];
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private active = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor({
+    requestsPerSecond = Infinity,
+    burst,
+    maxConcurrent = Infinity,
+  }: Partial<RateLimitOptions> = {}) {
+    this.options = {
+      requestsPerSecond,
+      burst: burst ?? Math.max(1, requestsPerSecond),
+      maxConcurrent,
+    };
+    this.tokens = this.options.burst;
+  }
+
+  /** The number of tasks waiting for a slot */
+  public get pending(): number {
+    return this.queue.length;
+  }
+
+  /** The number of tasks currently running */
+  public get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Runs the task as soon as a token and a concurrency slot are available
+   * @param task - The task to run
+   * @returns The result of the task
+   */
+  public async schedule<T>(task: () => Promise<T>): Promise<T> {
+    if (this.isUnlimited) {
+      return task();
+    }
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  private get isUnlimited(): boolean {
+    return (
+      this.options.requestsPerSecond === Infinity &&
+      this.options.maxConcurrent === Infinity
+    );
+  }
+
+  private refill() {
+    if (this.options.requestsPerSecond === Infinity) {
+      this.tokens = Infinity;
+      return;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.options.burst,
+      this.tokens +
+        ((now - this.lastRefill) * this.options.requestsPerSecond) / 1000
+    );
+    this.lastRefill = now;
+  }
+
+  private drain() {
+    this.refill();
+    while (
+      this.queue.length &&
+      this.active < this.options.maxConcurrent &&
+      this.tokens >= 1
+    ) {
+      this.tokens--;
+      this.active++;
+      this.queue.shift()?.();
+    }
+    // Wake up once the next token is available, slots freed by running tasks drain on their own
+    if (
+      this.queue.length &&
+      this.tokens < 1 &&
+      this.active < this.options.maxConcurrent &&
+      !this.timer
+    ) {
+      const wait = Math.ceil(
+        ((1 - this.tokens) * 1000) / this.options.requestsPerSecond
+      );
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, wait);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { XOXNOHttpError, XOXNONetworkError, XOXNOTimeoutError } from './errors';
+
+export interface RetryPolicy {
+  /** Total number of attempts including the first one, 1 disables retries */
+  maxAttempts: number;
+  /** The delay in ms before the first retry */
+  baseDelay: number;
+  /** The upper bound in ms of a computed delay */
+  maxDelay: number;
+  /** The multiplier applied to the delay after every failed attempt */
+  factor: number;
+  /** The random jitter ratio (0 to 1) applied on top of every computed delay */
+  jitter: number;
+  /** The HTTP status codes that are retried */
+  retryOnStatus: number[];
+  /** The HTTP methods that are retried, non idempotent methods like POST are excluded by default */
+  methods: string[];
+  /** If true, the Retry-After header of the response replaces the computed delay, a request asked to wait longer than maxDelay is not retried */
+  respectRetryAfter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelay: 500,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: 0.2,
+  retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+  methods: ['GET', 'HEAD', 'OPTIONS'],
+  respectRetryAfter: true,
+};
+
+/**
+ * Parses a Retry-After header value, either delta seconds or an HTTP date
+ * @param value - The raw header value
+ * @returns The delay in ms, or undefined if the header is missing or invalid
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined
+): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+};
+
+/**
+ * Computes the delay before the next retry using exponential backoff with jitter
+ * @param policy - The retry policy
+ * @param attempt - The number of the failed attempt, starting at 1
+ * @param retryAfter - The delay in ms requested by the server, if any, capped by the max delay
+ */
+export const getRetryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter?: number
+): number => {
+  if (policy.respectRetryAfter && retryAfter !== undefined) {
+    return Math.min(policy.maxDelay, retryAfter);
+  }
+  const delay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(policy.factor, attempt - 1)
+  );
+  const jitter = delay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + jitter));
+};
+
+/**
+ * Whether a failed request can be retried under the given policy
+ */
+export const isRetryableError = (
+  error: unknown,
+  policy: RetryPolicy
+): boolean => {
+  if (error instanceof XOXNOHttpError) {
+    return policy.retryOnStatus.includes(error.status);
+  }
+  return (
+    error instanceof XOXNOTimeoutError || error instanceof XOXNONetworkError
+  );
+};
+
+/**
+ * Runs the given function until it succeeds, the error is not retryable or the attempts are exhausted
+ * @param fn - The function to run, receives the current attempt starting at 1
+ * @param policy - The retry policy
+ * @param shouldRetry - Decides if the thrown error can be retried
+ */
+export const withRetry = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  shouldRetry: (error: unknown) => boolean = (error) =>
+    isRetryableError(error, policy)
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const retryAfter =
+        error instanceof XOXNOHttpError ? error.retryAfter : undefined;
+      // Retrying before the delay requested by the server would be rejected again
+      const tooLong =
+        policy.respectRetryAfter &&
+        retryAfter !== undefined &&
+        retryAfter > policy.maxDelay;
+      if (attempt >= policy.maxAttempts || tooLong || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = getRetryDelay(policy, attempt, retryAfter);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+};
@@ -7,14 +7,20 @@ import type { Interaction } from '@multiversx/sdk-core/out/smartcontracts/intera
 import type { TypedOutcomeBundle } from '@multiversx/sdk-core/out/smartcontracts/interface';
 import { ContractQueryResponse } from '@multiversx/sdk-network-providers/out/contractQueryResponse';
 import { ProxyNetworkProvider } from '@multiversx/sdk-network-providers/out/proxyNetworkProvider';
+import { ContractQueryError } from './errors';
+import { RetryPolicy, withRetry } from './retry';
+import type { RateLimiter } from './rateLimiter';
 
 export class ContractQueryRunner {
   private readonly proxy: INetworkProvider;
   private readonly parser: ResultsParser = new ResultsParser();
+  private readonly retry: RetryPolicy;
+  private readonly limiter: RateLimiter;
 
-  constructor() {
-    const api = XOXNOClient.init().apiUrl;
-    this.proxy = new ProxyNetworkProvider(api, {
+  constructor(api: XOXNOClient = XOXNOClient.init()) {
+    this.retry = api.retry;
+    this.limiter = api.limiter;
+    this.proxy = new ProxyNetworkProvider(api.apiUrl, {
       timeout: 10000,
     });
   }
@@ -23,23 +29,48 @@ export class ContractQueryRunner {
     contract: SmartContract,
     interaction: Interaction
   ): Promise<TypedOutcomeBundle> {
+    const func = interaction.getFunction().toString();
+    const address = contract.getAddress().bech32();
+    let bundle: TypedOutcomeBundle;
     try {
-      const queryResponse: ContractQueryResponse =
-        await this.proxy.queryContract(interaction.buildQuery());
+      // Queries are read only, so they are retried regardless of the HTTP method
+      const queryResponse: ContractQueryResponse = await withRetry(
+        () =>
+          this.limiter.schedule(() =>
+            this.proxy.queryContract(interaction.buildQuery())
+          ),
+        this.retry,
+        (error) => this.isRetryableQueryError(error)
+      );
 
-      return this.parser.parseQueryResponse(
+      bundle = this.parser.parseQueryResponse(
         queryResponse,
         interaction.getEndpoint()
       );
     } catch (error) {
-      console.log(
-        `Unexpected error when running query '${
-          interaction.buildQuery().func
-        }' to sc '${contract.getAddress().bech32()}' `
+      throw new ContractQueryError(
+        func,
+        address,
+        error instanceof Error ? error.message : String(error),
+        undefined,
+        error
       );
-      console.error(error);
+    }
 
-      throw error;
+    if (!bundle.returnCode.isSuccess()) {
+      throw new ContractQueryError(
+        func,
+        address,
+        bundle.returnMessage || bundle.returnCode.toString(),
+        bundle.returnCode.toString()
+      );
     }
+    return bundle;
+  }
+
+  private isRetryableQueryError(error: any): boolean {
+    const status = error?.inner?.response?.status;
+    // No response means the proxy was unreachable or the request timed out
+    return status === undefined || this.retry.retryOnStatus.includes(status);
   }
 }
@@ -0,0 +1,175 @@
+export interface SchemaIssue {
+  /** The path of the invalid value, e.g. getNFTs.resources[2].saleInfo.minBid */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Never set, binds the schema to the type it validates so the compiler keeps both in sync */
+  readonly __type?: T;
+}
+
+export type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export enum ValidationMode {
+  /** Responses are not validated */
+  Off = 'off',
+  /** Invalid responses are reported to the onSchemaIssue option of the client, console.warn by default, and returned as they are */
+  Warn = 'warn',
+  /** Invalid responses throw an XOXNOSchemaError */
+  Strict = 'strict',
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const primitive = <T>(
+  expected: 'string' | 'number' | 'boolean'
+): Schema<T> => ({
+  expected,
+  check(value, path, issues) {
+    if (typeof value !== expected || Number.isNaN(value)) {
+      issues.push({ path, expected, received: describe(value) });
+    }
+  },
+});
+
+/**
+ * Minimal schema builders used to validate API responses at runtime
+ *
+ * @example
+ * const ownerSchema = schema.object<Owner>({
+ *   username: schema.string(),
+ *   address: schema.string(),
+ *   profile: schema.string(),
+ * });
+ */
+export const schema = {
+  string: () => primitive<string>('string'),
+  number: () => primitive<number>('number'),
+  boolean: () => primitive<boolean>('boolean'),
+  unknown: <T = unknown>(): Schema<T> => ({
+    expected: 'unknown',
+    check() {},
+  }),
+  literal: <T extends string | number | boolean>(literal: T): Schema<T> => ({
+    expected: JSON.stringify(literal),
+    check(value, path, issues) {
+      if (value !== literal) {
+        issues.push({
+          path,
+          expected: JSON.stringify(literal),
+          received: JSON.stringify(value) ?? describe(value),
+        });
+      }
+    },
+  }),
+  enumOf: <T extends string>(values: Record<string, T>): Schema<T> => {
+    const allowed = Object.values(values);
+    return {
+      expected: allowed.join(' | '),
+      check(value, path, issues) {
+        if (!allowed.includes(value as T)) {
+          issues.push({
+            path,
+            expected: allowed.join(' | '),
+            received: JSON.stringify(value) ?? describe(value),
+          });
+        }
+      },
+    };
+  },
+  union: <T extends unknown[]>(
+    ...members: { [K in keyof T]: Schema<T[K]> }
+  ): Schema<T[number]> => {
+    const expected = members.map((member) => member.expected).join(' | ');
+    return {
+      expected,
+      check(value, path, issues) {
+        const valid = members.some((member) => {
+          const memberIssues: SchemaIssue[] = [];
+          member.check(value, path, memberIssues);
+          return !memberIssues.length;
+        });
+        if (!valid) {
+          issues.push({ path, expected, received: describe(value) });
+        }
+      },
+    };
+  },
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({
+    expected: `${inner.expected} | undefined`,
+    check(value, path, issues) {
+      if (value !== undefined) inner.check(value, path, issues);
+    },
+  }),
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+    expected: `${inner.expected} | null`,
+    check(value, path, issues) {
+      if (value !== null) inner.check(value, path, issues);
+    },
+  }),
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: 'array', received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) =>
+        item.check(entry, `${path}[${index}]`, issues)
+      );
+    },
+  }),
+  record: <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+    expected: `Record<string, ${item.expected}>`,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+      Object.entries(value).forEach(([key, entry]) =>
+        item.check(entry, `${path}.${key}`, issues)
+      );
+    },
+  }),
+  object: <T>(shape: ObjectShape<T>): Schema<T> => ({
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+      (Object.keys(shape) as (keyof T)[]).forEach((key) =>
+        shape[key].check(
+          (value as Record<keyof T, unknown>)[key],
+          `${path}.${String(key)}`,
+          issues
+        )
+      );
+    },
+  }),
+};
+
+/**
+ * Validates a value against a schema
+ * @param value - The value to validate
+ * @param valueSchema - The schema of the value
+ * @param path - The name of the root value used as prefix of the reported paths
+ * @returns The list of issues, empty if the value is valid
+ */
+export const validateSchema = <T>(
+  value: unknown,
+  valueSchema: Schema<T>,
+  path = '$'
+): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  valueSchema.check(value, path, issues);
+  return issues;
+};
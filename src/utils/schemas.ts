@@ -0,0 +1,266 @@
+import {
+  ActivityData,
+  CollectionStatisticsProfile,
+  GlobalOffer,
+  GlobalOffers,
+  ICollectionProfile,
+  ISocials,
+  MetadataAttribute,
+  MintStatistics,
+  OtherStatistics,
+  ShortCollectionInfo,
+  TradeData,
+  TradingActivity,
+} from '../types/collection';
+import {
+  CollectionInfo,
+  GameData,
+  Media,
+  NFTAttribute,
+  NFTMetadata,
+  NftData,
+  Owner,
+  SaleInfo,
+} from '../types/nft';
+import { NftActivityType } from '../types/trading';
+import { schema } from './schema';
+
+export const ownerSchema = schema.object<Owner>({
+  username: schema.string(),
+  address: schema.string(),
+  profile: schema.string(),
+});
+
+export const metadataAttributeSchema = schema.object<MetadataAttribute>({
+  trait_type: schema.string(),
+  value: schema.union(schema.string(), schema.number()),
+});
+
+const nftAttributeSchema = schema.object<NFTAttribute>({
+  trait_type: schema.string(),
+  value: schema.string(),
+  occurance: schema.number(),
+  frequency: schema.number(),
+  onSaleCount: schema.optional(schema.number()),
+  floorPrice: schema.optional(schema.number()),
+  usdValue: schema.optional(schema.number()),
+});
+
+const nftMetadataSchema = schema.object<NFTMetadata>({
+  description: schema.optional(schema.string()),
+  attributes: schema.optional(schema.array(nftAttributeSchema)),
+  rarity: schema.optional(schema.object({ rank: schema.number() })),
+});
+
+const mediaSchema = schema.object<Media>({
+  originalMedia: schema.optional(
+    schema.object({
+      contentType: schema.optional(schema.string()),
+      contentLength: schema.optional(schema.number()),
+    })
+  ),
+  avifUrl: schema.optional(schema.string()),
+  webpUrl: schema.optional(schema.string()),
+  retries: schema.optional(schema.number()),
+});
+
+const saleInfoSchema = schema.object<SaleInfo>({
+  auctionId: schema.number(),
+  seller: schema.string(),
+  currentWinner: schema.optional(ownerSchema),
+  minBid: schema.string(),
+  maxBid: schema.optional(schema.string()),
+  currentBid: schema.optional(schema.string()),
+  startTime: schema.number(),
+  deadline: schema.number(),
+  paymentToken: schema.string(),
+  paymentTokenNonce: schema.number(),
+  auctionType: schema.string(),
+  timestamp: schema.number(),
+  minBidShort: schema.number(),
+  maxBidShort: schema.number(),
+  currentBidShort: schema.optional(schema.number()),
+  currentBidUsd: schema.optional(schema.number()),
+  quantity: schema.number(),
+  marketplace: schema.string(),
+  minBidUsdValue: schema.string(),
+  maxBidUsdValue: schema.optional(schema.string()),
+});
+
+const gameDataSchema = schema.object<GameData>({
+  name: schema.string(),
+  value: schema.number(),
+});
+
+const collectionInfoSchema = schema.object<CollectionInfo>({
+  name: schema.string(),
+  isVerified: schema.boolean(),
+  profile: schema.string(),
+  collectionSize: schema.number(),
+  description: schema.optional(schema.string()),
+  followCount: schema.optional(schema.number()),
+  holdersCount: schema.optional(schema.number()),
+});
+
+export const nftDataSchema = schema.object<NftData>({
+  id: schema.string(),
+  name: schema.string(),
+  identifier: schema.string(),
+  nonce: schema.number(),
+  collection: schema.string(),
+  type: schema.string(),
+  supply: schema.optional(schema.number()),
+  url: schema.string(),
+  wasProcessed: schema.boolean(),
+  royalties: schema.number(),
+  onSale: schema.boolean(),
+  metadata: nftMetadataSchema,
+  media: mediaSchema,
+  attributes: schema.optional(schema.string()),
+  creator: schema.optional(ownerSchema),
+  hasOffers: schema.optional(schema.boolean()),
+  collectionName: schema.string(),
+  saleInfo: schema.optional(saleInfoSchema),
+  tags: schema.optional(schema.array(schema.string())),
+  gameData: schema.optional(schema.array(gameDataSchema)),
+  owner: schema.optional(ownerSchema),
+  currentOwner: schema.optional(ownerSchema),
+  balance: schema.optional(schema.number()),
+  collectionInfo: schema.optional(collectionInfoSchema),
+  isStaked: schema.optional(schema.boolean()),
+  hasUboundPeriod: schema.optional(schema.boolean()),
+  unboundEpoch: schema.optional(schema.number()),
+  currentEpoch: schema.optional(schema.number()),
+  poolId: schema.optional(schema.number()),
+});
+
+const socialsSchema = schema.object<ISocials>({
+  twitter: schema.string(),
+  instagram: schema.string(),
+  website: schema.string(),
+  telegram: schema.string(),
+  discord: schema.string(),
+  facebook: schema.string(),
+  youtube: schema.string(),
+});
+
+const collectionStatisticsSchema = schema.object<CollectionStatisticsProfile>({
+  tradeData: schema.object<TradeData>({
+    dayEgldVolume: schema.number(),
+    weekEgldVolume: schema.number(),
+    totalEgldVolume: schema.number(),
+    averageEgldPrice: schema.number(),
+    athEgldPrice: schema.number(),
+    athTxHash: schema.string(),
+    totalTrades: schema.number(),
+  }),
+  mintData: schema.object<MintStatistics>({
+    totalMintEgldVolume: schema.number(),
+    weekMintEgldVolume: schema.number(),
+    dayMintEgldVolume: schema.number(),
+  }),
+  other: schema.object<OtherStatistics>({
+    nftCount: schema.number(),
+    followCount: schema.number(),
+    holdersCount: schema.optional(schema.number()),
+  }),
+});
+
+export const collectionProfileSchema = schema.object<ICollectionProfile>({
+  dataType: schema.literal('collectionProfile'),
+  collection: schema.string(),
+  name: schema.string(),
+  description: schema.string(),
+  isVisible: schema.boolean(),
+  isVerified: schema.boolean(),
+  profile: schema.string(),
+  banner: schema.string(),
+  statistics: collectionStatisticsSchema,
+  owner: schema.string(),
+  creator: schema.string(),
+  isMintable: schema.boolean(),
+  hasStaking: schema.boolean(),
+  id: schema.string(),
+  socials: socialsSchema,
+  type: schema.string(),
+  lastVerifiedTimestamp: schema.number(),
+  lastVerifiedBy: schema.string(),
+  _ts: schema.number(),
+});
+
+const shortCollectionInfoSchema = schema.object<ShortCollectionInfo>({
+  name: schema.string(),
+  isVerified: schema.boolean(),
+  isVisible: schema.boolean(),
+  profile: schema.string(),
+  description: schema.string(),
+  collectionSize: schema.number(),
+  holderCount: schema.number(),
+  followCount: schema.number(),
+});
+
+const activityDataSchema = schema.object<ActivityData>({
+  collection: schema.string(),
+  identifier: schema.string(),
+  price: schema.number(),
+  paymentToken: schema.string(),
+  scId: schema.number(),
+  usdValue: schema.number(),
+  egldValue: schema.number(),
+  nftInfo: schema.object<ActivityData['nftInfo']>({
+    identifier: schema.string(),
+    collection: schema.string(),
+    name: schema.string(),
+    metadata: nftMetadataSchema,
+    url: schema.string(),
+    wasProcessed: schema.boolean(),
+    media: mediaSchema,
+  }),
+  collectionInfo: shortCollectionInfoSchema,
+});
+
+export const tradingActivitySchema = schema.object<TradingActivity>({
+  txHash: schema.string(),
+  eventIdentifier: schema.string(),
+  timestamp: schema.number(),
+  activityType: schema.enumOf(NftActivityType),
+  source: schema.string(),
+  from: ownerSchema,
+  to: ownerSchema,
+  activityData: activityDataSchema,
+});
+
+/** Schema of the global offers returned by the smart contract queries */
+export const globalOfferSchema = schema.object<GlobalOffer>({
+  attributes: schema.array(metadataAttributeSchema),
+  collection: schema.string(),
+  isActive: schema.boolean(),
+  marketplace: schema.string(),
+  offer_id: schema.number(),
+  owner: schema.string(),
+  ownerProfile: schema.optional(schema.string()),
+  ownerUsername: schema.optional(schema.string()),
+  payment_nonce: schema.number(),
+  payment_token: schema.string(),
+  price: schema.string(),
+  quantity: schema.number(),
+  short_price: schema.number(),
+  timestamp: schema.number(),
+});
+
+/** Schema of the global offers returned by the API */
+export const globalOffersSchema = schema.object<GlobalOffers>({
+  offerId: schema.number(),
+  collection: schema.string(),
+  quantity: schema.number(),
+  paymentToken: schema.string(),
+  price: schema.string(),
+  priceShort: schema.number(),
+  owner: ownerSchema,
+  usdValue: schema.string(),
+  marketplace: schema.string(),
+  timestamp: schema.number(),
+  attributes: schema.array(metadataAttributeSchema),
+  collectionInfo: schema.optional(collectionInfoSchema),
+  isActive: schema.boolean(),
+});
@@ -0,0 +1,169 @@
+import { TokenTransfer } from '@multiversx/sdk-core/out/tokens';
+import BigNumber from 'bignumber.js';
+import { XOXNOValidationError } from './errors';
+
+/**
+ * An amount of a token kept as an integer in the smallest unit of the token, together with its identifier and decimals.
+ * Use it instead of JS numbers to keep the full precision of large amounts and of tokens with few decimals.
+ *
+ * @example
+ * const price = TokenAmount.fromAmount('USDC-c76f1f', '12.5', 6);
+ * price.toBigInteger(); // '12500000'
+ * price.multipliedBy(3).toDenominated(); // '37.5'
+ */
+export class TokenAmount {
+  /** The token identifier, EGLD for the native token */
+  public readonly token: string;
+  /** The nonce of Meta ESDT, SFT and NFT tokens, 0 for EGLD and fungible tokens */
+  public readonly nonce: number;
+  public readonly decimals: number;
+  /** The amount in the smallest unit of the token */
+  public readonly value: BigNumber;
+
+  private constructor(
+    token: string,
+    value: BigNumber,
+    decimals: number,
+    nonce: number
+  ) {
+    if (!value.isInteger() || value.isNegative()) {
+      throw new XOXNOValidationError(
+        `Invalid amount of ${token}: ${value.shiftedBy(-decimals).toFixed()}`
+      );
+    }
+    this.token = token;
+    this.value = value;
+    this.decimals = decimals;
+    this.nonce = nonce;
+  }
+
+  /**
+   * Creates an amount from its human readable value, e.g. 1.5 for 1.5 EGLD.
+   * @param token - The token identifier.
+   * @param amount - The human readable amount, pass a string to avoid the rounding of JS numbers.
+   * @param decimals - The decimals of the token.
+   * @param nonce - The nonce of the token.
+   * @throws {XOXNOValidationError} When the amount is negative or has more decimals than the token.
+   */
+  static fromAmount(
+    token: string,
+    amount: BigNumber.Value,
+    decimals = 18,
+    nonce = 0
+  ): TokenAmount {
+    return new TokenAmount(
+      token,
+      new BigNumber(amount).shiftedBy(decimals),
+      decimals,
+      nonce
+    );
+  }
+
+  /**
+   * Creates an amount from its value in the smallest unit of the token, as returned by the smart contracts.
+   * @param token - The token identifier.
+   * @param value - The integer amount.
+   * @param decimals - The decimals of the token.
+   * @param nonce - The nonce of the token.
+   */
+  static fromBigInteger(
+    token: string,
+    value: BigNumber.Value | bigint,
+    decimals = 18,
+    nonce = 0
+  ): TokenAmount {
+    return new TokenAmount(
+      token,
+      new BigNumber(value.toString()),
+      decimals,
+      nonce
+    );
+  }
+
+  /**
+   * Creates an EGLD amount from its human readable value.
+   * @param amount - The amount of EGLD, e.g. 1.5
+   */
+  static egld(amount: BigNumber.Value): TokenAmount {
+    return TokenAmount.fromAmount('EGLD', amount);
+  }
+
+  static isTokenAmount(value: unknown): value is TokenAmount {
+    return value instanceof TokenAmount;
+  }
+
+  /** The integer amount in the smallest unit of the token, as expected by the smart contracts */
+  public toBigInteger(): string {
+    return this.value.toFixed(0);
+  }
+
+  /** The exact human readable amount */
+  public toDenominated(): string {
+    return this.value.shiftedBy(-this.decimals).toFixed();
+  }
+
+  /** The human readable amount as a JS number, only for display as it can lose precision */
+  public toNumber(): number {
+    return this.value.shiftedBy(-this.decimals).toNumber();
+  }
+
+  /**
+   * Multiplies the amount, e.g. by the quantity of an SFT listing. The result is rounded down to the smallest unit.
+   * @param factor - The multiplier.
+   */
+  public multipliedBy(factor: BigNumber.Value): TokenAmount {
+    return new TokenAmount(
+      this.token,
+      this.value.multipliedBy(factor).integerValue(BigNumber.ROUND_DOWN),
+      this.decimals,
+      this.nonce
+    );
+  }
+
+  /**
+   * Adds an amount of the same token.
+   * @param other - The amount to add.
+   * @throws {XOXNOValidationError} When the tokens differ.
+   */
+  public plus(other: TokenAmount): TokenAmount {
+    if (other.token !== this.token || other.nonce !== this.nonce) {
+      throw new XOXNOValidationError(
+        `Cannot add ${other.token} to ${this.token}`
+      );
+    }
+    return new TokenAmount(
+      this.token,
+      this.value.plus(other.value),
+      this.decimals,
+      this.nonce
+    );
+  }
+
+  /**
+   * Compares with an amount of the same token.
+   * @returns A negative number when lower, 0 when equal, a positive number when greater.
+   */
+  public comparedTo(other: TokenAmount): number {
+    return this.value.comparedTo(other.value);
+  }
+
+  /**
+   * Converts the amount to the transfer attached to a smart contract call.
+   * @param multiTransfer - Uses the EGLD-000000 identifier so EGLD can be part of a multi transfer
+   */
+  public toTokenTransfer(multiTransfer = false): TokenTransfer {
+    if (this.token === 'EGLD' && !multiTransfer) {
+      return TokenTransfer.egldFromBigInteger(this.value);
+    }
+    return new TokenTransfer({
+      tokenIdentifier: this.token === 'EGLD' ? 'EGLD-000000' : this.token,
+      nonce: this.nonce,
+      amountAsBigInteger: this.value,
+      numDecimals: this.decimals,
+    });
+  }
+
+  public toString(): string {
+    return `${this.toDenominated()} ${this.token}`;
+  }
+}
@@ -0,0 +1,217 @@
+import BigNumber from 'bignumber.js';
+import { CommonModule } from '../common';
+import { AssetCategory, FungibleAssets } from '../types/collection';
+import { TokenInfo, TokenUSDPrices } from '../types/common';
+import { XOXNOClient } from './api';
+import { XOXNOValidationError } from './errors';
+import { TokenAmount } from './tokenAmount';
+
+const EGLD: TokenInfo = {
+  identifier: 'EGLD',
+  name: 'MultiversX eGold',
+  ticker: 'EGLD',
+  decimals: 18,
+};
+
+export type TokenRegistryOptions = Partial<{
+  /** The delay in ms after which the token metadata is fetched again */
+  tokensTtl: number;
+  /** The delay in ms after which the USD prices are fetched again */
+  pricesTtl: number;
+}>;
+
+/**
+ * TokenRegistry resolves the decimals, logos and USD price of the fungible tokens by identifier.
+ * The token list and the prices are fetched once and kept in memory, the registry returned by `TokenRegistry.for`
+ * is shared by the modules using the same client so the builders resolve the decimals without extra requests.
+ *
+ * @example
+ * const tokens = TokenRegistry.for(client);
+ * const price = await tokens.toTokenAmount('USDC-c76f1f', '12.5');
+ */
+export class TokenRegistry {
+  private static readonly registries = new WeakMap<
+    XOXNOClient,
+    TokenRegistry
+  >();
+  private readonly common: CommonModule;
+  private readonly tokensTtl: number;
+  private readonly pricesTtl: number;
+  private tokens = new Map<string, TokenInfo>();
+  private tokensRequest?: Promise<void>;
+  private tokensExpireAt = 0;
+  private prices?: Promise<TokenUSDPrices>;
+  private pricesExpireAt = 0;
+
+  constructor(
+    api: XOXNOClient = XOXNOClient.init(),
+    { tokensTtl = 3_600_000, pricesTtl = 60_000 }: TokenRegistryOptions = {}
+  ) {
+    this.common = new CommonModule(api);
+    this.tokensTtl = tokensTtl;
+    this.pricesTtl = pricesTtl;
+  }
+
+  /**
+   * Returns the registry shared by every module of a client.
+   * @param api - The client, defaults to the global client.
+   */
+  static for(api: XOXNOClient = XOXNOClient.init()): TokenRegistry {
+    let registry = TokenRegistry.registries.get(api);
+    if (!registry) {
+      registry = new TokenRegistry(api);
+      TokenRegistry.registries.set(api, registry);
+    }
+    return registry;
+  }
+
+  /**
+   * Fetches the token list unless it is already cached.
+   * @param force - Fetches the list again even if the cache did not expire.
+   */
+  public load = async (force = false): Promise<void> => {
+    if (force || !this.tokensRequest || this.tokensExpireAt <= Date.now()) {
+      this.tokensExpireAt = Date.now() + this.tokensTtl;
+      this.tokensRequest = this.common
+        .getFungibleTokens([AssetCategory.ALL])
+        .then((assets) => {
+          this.tokens = new Map(
+            Object.values(assets).map((asset) => [
+              asset.identifier,
+              toTokenInfo(asset),
+            ])
+          );
+        })
+        .catch((error) => {
+          // A failed request is not cached so the next call retries it
+          this.tokensRequest = undefined;
+          throw error;
+        });
+    }
+    return this.tokensRequest;
+  };
+
+  /**
+   * Gets the metadata of a token, tokens missing from the list are fetched by identifier.
+   * @param identifier - The token identifier, e.g. USDC-c76f1f or EGLD.
+   * @returns The token metadata and its USD price, undefined for an unknown token.
+   */
+  public getToken = async (
+    identifier: string
+  ): Promise<TokenInfo | undefined> => {
+    const token = await this.getMetadata(identifier);
+    if (!token) {
+      return undefined;
+    }
+    return { ...token, usdPrice: await this.getUsdPrice(identifier) };
+  };
+
+  /**
+   * Gets the decimals of a token.
+   * @param identifier - The token identifier.
+   * @throws {XOXNOValidationError} When the token is unknown.
+   */
+  public getDecimals = async (identifier: string): Promise<number> => {
+    const token = await this.getMetadata(identifier);
+    if (!token) {
+      throw new XOXNOValidationError('Unknown token: ' + identifier);
+    }
+    return token.decimals;
+  };
+
+  /**
+   * Gets the decimals of a token from the cache, without any request.
+   * @param identifier - The token identifier.
+   * @returns The decimals, undefined when the token list was not loaded or the token is unknown.
+   */
+  public getCachedDecimals = (identifier: string): number | undefined => {
+    return identifier === EGLD.identifier
+      ? EGLD.decimals
+      : this.tokens.get(identifier)?.decimals;
+  };
+
+  /**
+   * Gets the USD price of a token.
+   * @param identifier - The token identifier.
+   * @returns The price of one token, undefined when the API has no price for it.
+   */
+  public getUsdPrice = async (
+    identifier: string
+  ): Promise<number | undefined> => {
+    if (!this.prices || this.pricesExpireAt <= Date.now()) {
+      this.pricesExpireAt = Date.now() + this.pricesTtl;
+      this.prices = this.common.getTokensUsdPrice().catch((error) => {
+        this.prices = undefined;
+        throw error;
+      });
+    }
+    const prices = await this.prices;
+    return prices[identifier] ?? prices[identifier.split('-')[0]];
+  };
+
+  /**
+   * Creates an exact amount of a token from its human readable value, with the decimals of the registry.
+   * @param identifier - The token identifier.
+   * @param amount - The human readable amount.
+   * @param nonce - The nonce of Meta ESDT tokens.
+   */
+  public toTokenAmount = async (
+    identifier: string,
+    amount: BigNumber.Value,
+    nonce = 0
+  ): Promise<TokenAmount> => {
+    return TokenAmount.fromAmount(
+      identifier,
+      amount,
+      await this.getDecimals(identifier),
+      nonce
+    );
+  };
+
+  /** Forgets the cached tokens and prices */
+  public clear = () => {
+    this.tokens = new Map();
+    this.tokensRequest = undefined;
+    this.prices = undefined;
+  };
+
+  private async getMetadata(
+    identifier: string
+  ): Promise<TokenInfo | undefined> {
+    if (identifier === EGLD.identifier) {
+      return EGLD;
+    }
+    await this.load();
+    let token = this.tokens.get(identifier);
+    if (!token) {
+      const assets = await this.common.getFungibleTokens(
+        [AssetCategory.ALL],
+        [identifier]
+      );
+      const asset = Object.values(assets).find(
+        (asset) => asset.identifier === identifier
+      );
+      if (asset) {
+        token = toTokenInfo(asset);
+        this.tokens.set(identifier, token);
+      }
+    }
+    return token;
+  }
+}
+
+const toTokenInfo = ({
+  identifier,
+  name,
+  ticker,
+  decimals,
+  svgUrl,
+  pngUrl,
+}: FungibleAssets): TokenInfo => ({
+  identifier,
+  name,
+  ticker,
+  decimals,
+  svgUrl,
+  pngUrl,
+});